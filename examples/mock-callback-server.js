@@ -3,12 +3,41 @@
 // Servidor mock para receber callbacks do worker (simula o Next.js)
 
 const http = require('http');
+const crypto = require('crypto');
 
 const PORT = process.env.PORT || 3003;
 const SECRET = process.env.QUEUE_WORKER_SECRET || '408c02491b2cb008aaf853a46144844abf3ef6c08ddf621c3072314fbffb8a02';
 
+// Janela aceita para X-Worker-Timestamp (anti-replay)
+const MAX_SIGNATURE_AGE_SECONDS = 300;
+
+/**
+ * Valida X-Worker-Signature: HMAC-SHA256 (hex) de `${timestamp}.${body}`
+ */
+function validateSignature(signature, timestamp, body) {
+    if (!signature || !timestamp) {
+        return false;
+    }
+
+    const age = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+    if (!Number.isFinite(age) || age > MAX_SIGNATURE_AGE_SECONDS) {
+        return false;
+    }
+
+    const expected = crypto
+        .createHmac('sha256', SECRET)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+
+    try {
+        return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    } catch {
+        return false;
+    }
+}
+
 /**
- * Valida Bearer Token
+ * Valida Bearer Token (CALLBACK_AUTH_MODE=bearer, legado)
  */
 function validateBearerToken(authHeader) {
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -23,7 +52,7 @@ const server = http.createServer((req, res) => {
     // CORS
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Worker-Signature, X-Worker-Timestamp');
 
     if (req.method === 'OPTIONS') {
         res.writeHead(200);
@@ -63,15 +92,29 @@ const server = http.createServer((req, res) => {
                     }
                 }
 
-                // Validar Bearer Token
-                if (!validateBearerToken(authHeader)) {
-                    console.log('❌ ERRO: Bearer Token inválido ou ausente!');
-                    res.writeHead(401, { 'Content-Type': 'application/json' });
-                    res.end(JSON.stringify({ error: 'Invalid or missing Bearer Token' }));
-                    return;
-                }
+                // Validar assinatura HMAC (ou Bearer Token no modo legado)
+                const signature = req.headers['x-worker-signature'];
+                const timestamp = req.headers['x-worker-timestamp'];
 
-                console.log('✅ Bearer Token válido!');
+                if (signature) {
+                    if (!validateSignature(signature, timestamp, body)) {
+                        console.log('❌ ERRO: Assinatura HMAC inválida ou expirada!');
+                        res.writeHead(401, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: 'Invalid or expired signature' }));
+                        return;
+                    }
+
+                    console.log('✅ Assinatura HMAC válida!');
+                } else {
+                    if (!validateBearerToken(authHeader)) {
+                        console.log('❌ ERRO: Assinatura ou Bearer Token ausente!');
+                        res.writeHead(401, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: 'Missing X-Worker-Signature header' }));
+                        return;
+                    }
+
+                    console.log('✅ Bearer Token válido (modo legado)!');
+                }
 
                 // Simular salvamento no banco
                 console.log('💾 Salvando no banco de dados...');
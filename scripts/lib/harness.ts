@@ -0,0 +1,31 @@
+/**
+ * Mini runner dos scripts de teste (scripts/test-*.ts)
+ * Sem framework: cada teste imprime ✅/❌ e finish() define o exit code
+ */
+
+let failures = 0;
+
+/**
+ * Executa um teste; falhas são contadas sem interromper os próximos
+ */
+export async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (error: any) {
+    failures++;
+    console.log(`❌ ${name}\n   ${error.message}`);
+  }
+}
+
+/**
+ * Imprime o resumo e encerra o processo (exit 1 se algum teste falhou)
+ */
+export function finish(): never {
+  console.log(
+    failures === 0
+      ? "\n✅ Todos os testes passaram\n"
+      : `\n❌ ${failures} teste(s) falharam\n`
+  );
+  process.exit(failures === 0 ? 0 : 1);
+}
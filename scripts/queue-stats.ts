@@ -25,6 +25,7 @@ async function getQueueStats(watch: boolean = false) {
     try {
       const counts = await queue.getJobCounts(
         "waiting",
+        "prioritized",
         "active",
         "completed",
         "failed",
@@ -32,7 +33,9 @@ async function getQueueStats(watch: boolean = false) {
         "paused"
       );
 
-      console.log(`\n⏳ Aguardando:  ${counts.waiting || 0}`);
+      console.log(
+        `\n⏳ Aguardando:  ${(counts.waiting || 0) + (counts.prioritized || 0)}`
+      );
       console.log(`🔄 Processando: ${counts.active || 0}`);
       console.log(`✅ Completos:   ${counts.completed || 0}`);
       console.log(`❌ Falhados:    ${counts.failed || 0}`);
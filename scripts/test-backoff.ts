@@ -0,0 +1,115 @@
+#!/usr/bin/env tsx
+/**
+ * Testes das estratégias de backoff dos webhooks
+ * Não precisa de Redis: simula as tentativas com um job em memória
+ *
+ * Uso:
+ *   npm run test:backoff
+ */
+
+import assert from "node:assert/strict";
+import { MinimalJob } from "bullmq";
+import { computeBackoffDelay } from "../src/lib/queue/backoff";
+import { WebhookBackoffOptions } from "../src/lib/types";
+import { finish, test } from "./lib/harness";
+
+/**
+ * Job mínimo com os campos lidos por computeBackoffDelay
+ */
+function createJob(backoff: WebhookBackoffOptions): MinimalJob {
+  return { data: { backoff }, opts: {}, delay: 0 } as unknown as MinimalJob;
+}
+
+/**
+ * Executa `attempts` falhas seguidas como o worker faz: calcula a espera,
+ * persiste em job.data.lastBackoffDelayMs e o BullMQ zera job.delay
+ */
+function simulateRetries(job: MinimalJob, attempts: number): number[] {
+  const delays: number[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const delay = computeBackoffDelay(attempt, job);
+    delays.push(delay);
+    job.data = { ...job.data, lastBackoffDelayMs: delay };
+    job.delay = 0; // Promoção do job atrasado
+  }
+  return delays;
+}
+
+/**
+ * Executa `fn` com Math.random fixo
+ */
+function withRandom<T>(value: number, fn: () => T): T {
+  const random = Math.random;
+  Math.random = () => value;
+  try {
+    return fn();
+  } finally {
+    Math.random = random;
+  }
+}
+
+async function main() {
+  console.log("\n⏱️  Testes de backoff\n");
+
+  await test("exponencial dobra a cada tentativa", () => {
+    const delays = simulateRetries(
+      createJob({ type: "exponential", delay: 1000 }),
+      4
+    );
+
+    assert.deepEqual(delays, [1000, 2000, 4000, 8000]);
+  });
+
+  await test("decorrelated jitter cresce além de 3x o delay base", () => {
+    const delays = withRandom(1, () =>
+      simulateRetries(
+        createJob({ type: "exponential", delay: 1000, jitter: "decorrelated" }),
+        5
+      )
+    );
+
+    assert.deepEqual(delays, [3000, 9000, 27000, 81000, 243000]);
+  });
+
+  await test("decorrelated jitter usa a espera anterior mesmo com job.delay = 0", () => {
+    const job = createJob({
+      type: "exponential",
+      delay: 1000,
+      jitter: "decorrelated",
+    });
+    const delays = withRandom(0.5, () => simulateRetries(job, 6));
+
+    // base + 0.5 * (3 * anterior - base): estritamente crescente
+    delays.slice(1).forEach((delay, index) => {
+      assert.ok(delay > delays[index], `${delay} <= ${delays[index]}`);
+    });
+    assert.ok(delays[5] > 3000, `última espera ${delays[5]} <= base * 3`);
+  });
+
+  await test("decorrelated jitter respeita maxDelay", () => {
+    const delays = withRandom(1, () =>
+      simulateRetries(
+        createJob({
+          type: "exponential",
+          delay: 1000,
+          jitter: "decorrelated",
+          maxDelay: 20000,
+        }),
+        5
+      )
+    );
+
+    assert.deepEqual(delays, [3000, 9000, 20000, 20000, 20000]);
+  });
+
+  await test("Retry-After tem precedência sobre a estratégia", () => {
+    const job = createJob({ type: "exponential", delay: 1000 });
+
+    assert.equal(computeBackoffDelay(2, job, 15000), 15000);
+  });
+
+  finish();
+}
+
+main();
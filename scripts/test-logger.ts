@@ -0,0 +1,193 @@
+#!/usr/bin/env tsx
+/**
+ * Testes do logger estruturado (níveis, child loggers, sinks e mascaramento)
+ * Não precisa de Redis: troca os sinks por um sink em memória
+ *
+ * Uso:
+ *   npm run test:logger
+ */
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  addLogSink,
+  createLogger,
+  createRotatingFileSink,
+  LogEntry,
+  LogSink,
+  setLogSinks,
+} from "../src/lib/logger";
+import { REDACTED } from "../src/lib/redact";
+import { finish, test } from "./lib/harness";
+
+/**
+ * Sink que guarda as linhas em memória
+ */
+function createMemorySink(): LogSink & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  return { entries, write: (entry) => entries.push(entry) };
+}
+
+/**
+ * Executa `fn` com LOG_LEVEL definido (undefined = padrão)
+ */
+function withLogLevel(level: string | undefined, fn: () => void): void {
+  const previous = process.env.LOG_LEVEL;
+  if (level === undefined) delete process.env.LOG_LEVEL;
+  else process.env.LOG_LEVEL = level;
+  try {
+    fn();
+  } finally {
+    if (previous === undefined) delete process.env.LOG_LEVEL;
+    else process.env.LOG_LEVEL = previous;
+  }
+}
+
+function emitAllLevels(): string[] {
+  const sink = createMemorySink();
+  setLogSinks([sink]);
+
+  const log = createLogger("test");
+  log.debug("debug_event");
+  log.info("info_event");
+  log.warn("warn_event");
+  log.error("error_event");
+
+  return sink.entries.map((entry) => entry.level);
+}
+
+async function main() {
+  console.log("\n📝 Testes do logger\n");
+
+  await test("LOG_LEVEL padrão (info) silencia debug", () => {
+    withLogLevel(undefined, () => {
+      assert.deepEqual(emitAllLevels(), ["info", "warn", "error"]);
+    });
+  });
+
+  await test("LOG_LEVEL=debug emite tudo", () => {
+    withLogLevel("debug", () => {
+      assert.deepEqual(emitAllLevels(), ["debug", "info", "warn", "error"]);
+    });
+  });
+
+  await test("LOG_LEVEL=warn silencia info", () => {
+    withLogLevel("WARN", () => {
+      assert.deepEqual(emitAllLevels(), ["warn", "error"]);
+      assert.equal(createLogger("test").isLevelEnabled("info"), false);
+    });
+  });
+
+  await test("LOG_LEVEL inválido cai para info", () => {
+    withLogLevel("verbose", () => {
+      assert.deepEqual(emitAllLevels(), ["info", "warn", "error"]);
+    });
+  });
+
+  await test("linha tem timestamp, level, service, event e instance_id", () => {
+    const sink = createMemorySink();
+    setLogSinks([sink]);
+
+    createLogger("webhook-worker").info("job_started", { job_id: "42" });
+    const [entry] = sink.entries;
+
+    assert.ok(!Number.isNaN(Date.parse(entry.timestamp)), entry.timestamp);
+    assert.equal(entry.level, "info");
+    assert.equal(entry.service, "webhook-worker");
+    assert.equal(entry.event, "job_started");
+    assert.ok(entry.instance_id);
+    assert.equal(entry.job_id, "42");
+  });
+
+  await test("child logger herda e sobrescreve os campos fixos", () => {
+    const sink = createMemorySink();
+    setLogSinks([sink]);
+
+    const parent = createLogger("worker", { queue: "webhooks", tenant_id: 1 });
+    const child = parent.child({ job_id: "42", tenant_id: 2 });
+    child.info("job_started");
+    child.info("job_completed", { job_id: "override" });
+    parent.info("worker_ready");
+
+    const [started, completed, ready] = sink.entries;
+    assert.equal(started.service, "worker");
+    assert.equal(started.queue, "webhooks");
+    assert.equal(started.tenant_id, 2); // child > parent
+    assert.equal(started.job_id, "42");
+    assert.equal(completed.job_id, "override"); // campos > bindings
+    assert.equal(ready.tenant_id, 1); // parent não é alterado
+    assert.equal(ready.job_id, undefined);
+  });
+
+  await test("campos não sobrescrevem instance_id", () => {
+    const sink = createMemorySink();
+    setLogSinks([sink]);
+
+    createLogger("test").info("spoof", { instance_id: "other" });
+
+    assert.notEqual(sink.entries[0].instance_id, "other");
+  });
+
+  await test("cada linha chega em todos os sinks (incluindo addLogSink)", () => {
+    const first = createMemorySink();
+    const second = createMemorySink();
+    const added = createMemorySink();
+    setLogSinks([first, second]);
+    addLogSink(added);
+
+    createLogger("test").warn("fan_out");
+
+    for (const sink of [first, second, added]) {
+      assert.deepEqual(
+        sink.entries.map((entry) => entry.event),
+        ["fan_out"]
+      );
+    }
+  });
+
+  await test("linhas passam pelo mascaramento antes dos sinks", () => {
+    const sink = createMemorySink();
+    setLogSinks([sink]);
+
+    createLogger("test", { secret: "bound-secret" }).info("request", {
+      headers: { Authorization: "Bearer sk_live_123" },
+    });
+    const [entry] = sink.entries;
+
+    assert.equal(entry.secret, REDACTED);
+    assert.equal(entry.headers.Authorization, REDACTED);
+  });
+
+  await test("sink de arquivo rotaciona por tamanho", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "logger-test-"));
+    const file = path.join(dir, "app.log");
+
+    try {
+      setLogSinks([
+        createRotatingFileSink({ file, maxBytes: 300, maxFiles: 2 }),
+      ]);
+
+      const log = createLogger("test");
+      for (let index = 0; index < 10; index++) {
+        log.info("rotation", { index });
+      }
+
+      assert.ok(fs.existsSync(`${file}.1`), "app.log.1 não foi criado");
+      assert.ok(fs.existsSync(`${file}.2`), "app.log.2 não foi criado");
+      assert.ok(!fs.existsSync(`${file}.3`), "maxFiles não respeitado");
+
+      const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+      const last = JSON.parse(lines[lines.length - 1]);
+      assert.equal(last.index, 9);
+      assert.ok(fs.statSync(file).size <= 300);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  finish();
+}
+
+main();
@@ -0,0 +1,175 @@
+#!/usr/bin/env tsx
+/**
+ * Testes da proteção contra SSRF (destinos e callbacks)
+ * Não precisa de Redis nem de rede externa: usa servidores HTTP locais
+ *
+ * Uso:
+ *   npm run test:ssrf
+ */
+
+import assert from "node:assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  assertPublicUrl,
+  getSsrfSafeDispatcher,
+  getUrlBlockReason,
+  SsrfBlockedError,
+  unwrapSsrfError,
+} from "../src/lib/ssrf";
+import { sendCallback } from "../src/lib/callbackSender";
+import { setLogSinks } from "../src/lib/logger";
+import { WorkerCallbackPayload } from "../src/lib/types";
+import { finish, test } from "./lib/harness";
+
+/**
+ * Servidor local que conta as requisições recebidas
+ */
+async function startServer(
+  handler: http.RequestListener
+): Promise<{ server: http.Server; url: string; hits: () => number }> {
+  let count = 0;
+  const server = http.createServer((req, res) => {
+    count++;
+    handler(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, url: `http://127.0.0.1:${port}`, hits: () => count };
+}
+
+function createPayload(): WorkerCallbackPayload {
+  const now = new Date().toISOString();
+  return {
+    jobId: "ssrf-test",
+    jobType: "webhook",
+    tenantId: 1,
+    status: "success",
+    success: true,
+    destination: {
+      url: "https://api.example.com/hook",
+      method: "POST",
+      statusCode: 200,
+      duration: 10,
+    },
+    execution: {
+      attempt: 1,
+      maxAttempts: 3,
+      startedAt: now,
+      completedAt: now,
+      duration: 10,
+    },
+  };
+}
+
+async function main() {
+  console.log("\n🛡️  Testes de SSRF\n");
+
+  // Logs do callbackSender não interessam aqui
+  setLogSinks([]);
+
+  await test("bloqueia loopback, redes privadas e metadata", () => {
+    for (const url of [
+      "http://localhost/",
+      "http://127.0.0.1/",
+      "http://10.0.0.5/",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+    ]) {
+      assert.ok(getUrlBlockReason(url), `${url} não foi bloqueada`);
+    }
+  });
+
+  await test("bloqueia host com ponto final (localhost.)", () => {
+    assert.ok(getUrlBlockReason("http://localhost./"));
+    assert.ok(getUrlBlockReason("http://api.localhost./"));
+  });
+
+  await test("bloqueia IPv4-compatible (::127.0.0.1)", () => {
+    assert.ok(getUrlBlockReason("http://[::127.0.0.1]/"));
+    assert.ok(getUrlBlockReason("http://[::a9fe:a9fe]/"));
+  });
+
+  await test("bloqueia NAT64 (64:ff9b::/96)", () => {
+    assert.ok(getUrlBlockReason("http://[64:ff9b::7f00:1]/"));
+    assert.ok(getUrlBlockReason("http://[64:ff9b::127.0.0.1]/"));
+  });
+
+  await test("aceita endereços públicos", () => {
+    assert.equal(getUrlBlockReason("https://8.8.8.8/"), null);
+    assert.equal(getUrlBlockReason("https://[2001:4860:4860::8888]/"), null);
+    assert.equal(getUrlBlockReason("https://api.example.com/hook"), null);
+  });
+
+  await test("assertPublicUrl rejeita localhost. antes do DNS", async () => {
+    await assert.rejects(
+      assertPublicUrl("http://localhost./"),
+      SsrfBlockedError
+    );
+  });
+
+  await test("dispatcher bloqueia no connect um host que resolve para IP interno", async () => {
+    const target = await startServer((_req, res) => res.end("ok"));
+    const { port } = target.server.address() as AddressInfo;
+
+    try {
+      // "localhost" pula assertPublicUrl de propósito: só o dispatcher protege
+      const error = await fetch(`http://localhost:${port}/`, {
+        dispatcher: getSsrfSafeDispatcher(),
+      }).then(
+        () => null,
+        (caught) => unwrapSsrfError(caught)
+      );
+
+      assert.ok(error instanceof SsrfBlockedError, `erro: ${error}`);
+      assert.equal(target.hits(), 0);
+    } finally {
+      target.server.close();
+    }
+  });
+
+  await test("dispatcher respeita SSRF_ALLOWLIST", async () => {
+    const target = await startServer((_req, res) => res.end("ok"));
+    const { port } = target.server.address() as AddressInfo;
+    process.env.SSRF_ALLOWLIST = "localhost";
+
+    try {
+      const response = await fetch(`http://localhost:${port}/`, {
+        dispatcher: getSsrfSafeDispatcher(),
+      });
+
+      assert.equal(await response.text(), "ok");
+    } finally {
+      delete process.env.SSRF_ALLOWLIST;
+      target.server.close();
+    }
+  });
+
+  await test("callback não segue redirect (307 para outro host)", async () => {
+    const internal = await startServer((_req, res) => res.end("leaked"));
+    const partner = await startServer((_req, res) => {
+      res.writeHead(307, { Location: `${internal.url}/steal` });
+      res.end();
+    });
+    process.env.SSRF_ALLOWLIST = "127.0.0.1";
+
+    try {
+      await assert.rejects(
+        sendCallback(createPayload(), `${partner.url}/callback`, "secret"),
+        /Callback HTTP 307/
+      );
+      assert.equal(partner.hits(), 1);
+      assert.equal(internal.hits(), 0, "redirect foi seguido");
+    } finally {
+      delete process.env.SSRF_ALLOWLIST;
+      partner.server.close();
+      internal.server.close();
+    }
+  });
+
+  finish();
+}
+
+main();
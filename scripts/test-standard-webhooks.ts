@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+/**
+ * Testes da assinatura/verificação Standard Webhooks
+ * Importa pelo subpath público do pacote (mesmo caminho usado pelos receptores)
+ *
+ * Uso:
+ *   npm run test:standard-webhooks
+ */
+
+import assert from "node:assert/strict";
+import {
+  buildStandardWebhookHeaders,
+  signStandardWebhook,
+  STANDARD_WEBHOOK_HEADERS,
+  verifyStandardWebhook,
+} from "convex-bullmq-worker/standard-webhooks";
+import { finish, test } from "./lib/harness";
+
+// Vetor de teste da especificação (standard-webhooks/libraries)
+const SPEC_SECRET = "whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw";
+const SPEC_ID = "msg_p5jXN8AQM9LWM0D4loKWxJek";
+const SPEC_TIMESTAMP = 1614265330;
+const SPEC_BODY = '{"test": 2432232314}';
+const SPEC_SIGNATURE = "v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=";
+
+const ROTATED_SECRET = "whsec_dGVzdC1zZWNyZXQtcm90YWNhby0yMDI1";
+
+function specHeaders(signature: string = SPEC_SIGNATURE) {
+  return {
+    [STANDARD_WEBHOOK_HEADERS.id]: SPEC_ID,
+    [STANDARD_WEBHOOK_HEADERS.timestamp]: String(SPEC_TIMESTAMP),
+    [STANDARD_WEBHOOK_HEADERS.signature]: signature,
+  };
+}
+
+async function main() {
+  console.log("\n✍️  Testes Standard Webhooks\n");
+
+  await test("assina igual ao vetor de teste da especificação", () => {
+    assert.equal(
+      signStandardWebhook(SPEC_ID, SPEC_TIMESTAMP, SPEC_BODY, SPEC_SECRET),
+      SPEC_SIGNATURE
+    );
+  });
+
+  await test("verifica o vetor de teste da especificação", () => {
+    assert.ok(
+      verifyStandardWebhook(SPEC_BODY, specHeaders(), SPEC_SECRET, {
+        now: SPEC_TIMESTAMP * 1000,
+      })
+    );
+  });
+
+  await test("rejeita corpo adulterado", () => {
+    assert.ok(
+      !verifyStandardWebhook('{"test": 1}', specHeaders(), SPEC_SECRET, {
+        now: SPEC_TIMESTAMP * 1000,
+      })
+    );
+  });
+
+  await test("rejeita timestamp fora da tolerância", () => {
+    assert.ok(
+      !verifyStandardWebhook(SPEC_BODY, specHeaders(), SPEC_SECRET, {
+        now: (SPEC_TIMESTAMP + 301) * 1000,
+      })
+    );
+  });
+
+  await test("aceita qualquer secret ativo durante a rotação", () => {
+    const now = Date.now();
+    const headers = buildStandardWebhookHeaders(
+      SPEC_ID,
+      SPEC_BODY,
+      [SPEC_SECRET, ROTATED_SECRET],
+      now
+    );
+
+    assert.equal(
+      headers[STANDARD_WEBHOOK_HEADERS.signature].split(" ").length,
+      2
+    );
+    assert.ok(
+      verifyStandardWebhook(SPEC_BODY, headers, ROTATED_SECRET, { now })
+    );
+    assert.ok(verifyStandardWebhook(SPEC_BODY, headers, SPEC_SECRET, { now }));
+  });
+
+  await test("aceita Headers da Fetch API", () => {
+    assert.ok(
+      verifyStandardWebhook(
+        SPEC_BODY,
+        new Headers(specHeaders()),
+        SPEC_SECRET,
+        {
+          now: SPEC_TIMESTAMP * 1000,
+        }
+      )
+    );
+  });
+
+  finish();
+}
+
+main();
@@ -9,10 +9,13 @@
  */
 
 import http from "http";
+import type { Job } from "bullmq";
 import {
   startWebhookWorker,
   stopWebhookWorker,
   webhookWorker,
+  WebhookJobData,
+  WebhookDeliveryProgress,
 } from "./lib/queue/webhookWorker";
 import {
   getRedisSingleton,
@@ -21,11 +24,89 @@ import {
   getRedisMetrics,
   redisDiagnostics,
 } from "./lib/queue/connection";
+import {
+  JOB_PRIORITIES,
+  buildJobOptions,
+  buildReplayJob,
+  buildWebhookJobData,
+  getDestinationUrl,
+  getScheduledFor,
+  isHttpUrl,
+  isNewFormatPayload,
+  validateEnqueuePayload,
+  withDestinationUrl,
+} from "./lib/queue/enqueue";
+import {
+  closeDeadLetterQueues,
+  getDeadLetterQueue,
+} from "./lib/queue/deadLetterQueue";
+import {
+  CALLBACK_QUEUE_NAME,
+  closeCallbackQueue,
+  enqueueCallback,
+  getCallbackQueue,
+} from "./lib/queue/callbackQueue";
+import {
+  callbackWorker,
+  startCallbackWorker,
+  stopCallbackWorker,
+} from "./lib/queue/callbackWorker";
+import {
+  getIdempotencyKeyError,
+  getPayloadFingerprint,
+  IDEMPOTENCY_CONFLICT,
+  IDEMPOTENT_REPLAY,
+  IdempotencyResult,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+} from "./lib/queue/idempotency";
+import {
+  getJobDestinationUrl,
+  JobFilterError,
+  listJobs,
+  parseJobFilter,
+  parseJobStates,
+  scanJobs,
+} from "./lib/queue/jobFilters";
+import {
+  createSchedule,
+  deleteSchedule,
+  getSchedule,
+  listSchedules,
+  ScheduleValidationError,
+  updateSchedule,
+} from "./lib/queue/schedules";
+import {
+  QueueBatchEnqueueResponse,
+  QueueBatchItemResult,
+  QueueEnqueueResponse,
+  QueueJobListResponse,
+  QueueJobState,
+  QueueJobStatusResponse,
+  QueueJobSummary,
+  WorkerCallbackPayload,
+} from "./lib/types";
+import { getUrlBlockReason, SSRF_BLOCKED } from "./lib/ssrf";
+import {
+  assertDestinationAllowed,
+  deleteTenantPolicy,
+  DestinationNotAllowedError,
+  getTenantPolicy,
+  setTenantPolicy,
+  TenantPolicyError,
+} from "./lib/queue/tenantPolicy";
+import { createLogger } from "./lib/logger";
+import { redactRequestBody } from "./lib/redact";
 
 // ============================================================================
 // Global State
 // ============================================================================
 
+const mainLog = createLogger("main");
+const apiLog = createLogger("api");
+const healthServerLog = createLogger("health-server");
+const healthCheckLog = createLogger("health-check");
+
 const startTime = Date.now();
 let isShuttingDown = false;
 let healthServer: http.Server | null = null;
@@ -147,6 +228,10 @@ interface HealthStatus {
       active: boolean;
       paused: boolean;
     };
+    callback: {
+      active: boolean;
+      paused: boolean;
+    };
   };
   redis: {
     connected: boolean;
@@ -158,6 +243,10 @@ interface HealthStatus {
 async function getHealthStatus(): Promise<HealthStatus> {
   const isActive = webhookWorker?.isActive() || false;
   const isPaused = webhookWorker ? await webhookWorker.isPaused() : true;
+  const isCallbackActive = callbackWorker?.isActive() || false;
+  const isCallbackPaused = callbackWorker
+    ? await callbackWorker.isPaused()
+    : true;
 
   // ✅ Verificação real do Redis usando singleton
   let redisConnected = false;
@@ -170,15 +259,9 @@ async function getHealthStatus(): Promise<HealthStatus> {
     redisRtt = Date.now() - startPing;
     redisConnected = true;
   } catch (error: any) {
-    console.error(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "health-check",
-        event: "redis_ping_failed",
-        error: error.message,
-      })
-    );
+    healthCheckLog.error("redis_ping_failed", {
+      error: error.message,
+    });
     redisConnected = false;
   }
 
@@ -186,7 +269,7 @@ async function getHealthStatus(): Promise<HealthStatus> {
   let status: "healthy" | "degraded" | "unhealthy";
   if (isShuttingDown) {
     status = "unhealthy";
-  } else if (redisConnected && isActive) {
+  } else if (redisConnected && isActive && isCallbackActive) {
     status = "healthy";
   } else {
     status = "degraded";
@@ -200,6 +283,10 @@ async function getHealthStatus(): Promise<HealthStatus> {
         active: isActive,
         paused: isPaused,
       },
+      callback: {
+        active: isCallbackActive,
+        paused: isCallbackPaused,
+      },
     },
     redis: {
       connected: redisConnected,
@@ -209,14 +296,259 @@ async function getHealthStatus(): Promise<HealthStatus> {
   };
 }
 
+// ============================================================================
+// HTTP Helpers
+// ============================================================================
+
+/**
+ * Lê o corpo completo da requisição
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Janela (em segundos) aceita para X-Webhook-Timestamp
+ */
+const REQUEST_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Conteúdo assinado pelo cliente no HMAC
+ * - Com X-Webhook-Timestamp: "<timestamp>.<MÉTODO>.<path com query>[.<corpo>]"
+ *   → assinatura única por rota e com validade curta (anti-replay)
+ * - Sem timestamp e com corpo: o corpo bruto (compatibilidade), exceto quando
+ *   `requireTimestamp` (rotas que alteram estado com corpos genéricos)
+ * Retorna null quando o timestamp é exigido, está ausente ou fora da janela
+ */
+function getSignedRequestContent(
+  req: http.IncomingMessage,
+  body: string,
+  requireTimestamp: boolean
+): string | null {
+  const timestamp = req.headers["x-webhook-timestamp"] as string | undefined;
+
+  if (timestamp === undefined && body.length > 0 && !requireTimestamp) {
+    return body;
+  }
+
+  const seconds = Number(timestamp);
+
+  if (
+    !timestamp ||
+    !Number.isInteger(seconds) ||
+    Math.abs(Date.now() / 1000 - seconds) > REQUEST_SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    return null;
+  }
+
+  const content = `${timestamp}.${req.method}.${req.url}`;
+  return body.length > 0 ? `${content}.${body}` : content;
+}
+
+/**
+ * Valida autenticação da requisição (Bearer Token OU HMAC)
+ * Em caso de falha já responde 401/500 e retorna false
+ *
+ * @param body - Corpo bruto usado no HMAC ("" para requisições sem corpo,
+ * que assinam método + path + X-Webhook-Timestamp)
+ * @param eventPrefix - Prefixo dos eventos de log (ex: "queue_add")
+ * @param options.requireTimestamp - HMAC precisa cobrir método + path +
+ * X-Webhook-Timestamp mesmo com corpo (ex: retry/replay)
+ */
+async function authenticateRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body: string,
+  eventPrefix: string,
+  options: { requireTimestamp?: boolean } = {}
+): Promise<boolean> {
+  const authHeader = req.headers["authorization"] as string;
+  const hmacSignature = req.headers["x-webhook-signature"] as string;
+  const secret = process.env.QUEUE_WORKER_SECRET;
+
+  if (!secret) {
+    apiLog.error(`${eventPrefix}_no_secret_configured`);
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Server configuration error",
+      })
+    );
+    return false;
+  }
+
+  // Validar autenticação (aceita Bearer Token OU HMAC)
+  let authenticated = false;
+
+  // Opção 1: HMAC Signature (RECOMENDADO - mais seguro)
+  if (hmacSignature) {
+    const crypto = await import("crypto");
+    const signedContent = getSignedRequestContent(
+      req,
+      body,
+      options.requireTimestamp ?? false
+    );
+
+    if (signedContent === null) {
+      apiLog.error(`${eventPrefix}_invalid_timestamp`, {
+        method: req.method,
+        path: req.url,
+      });
+    }
+
+    const expectedSignature = crypto
+      .createHmac("sha256", secret)
+      .update(signedContent ?? "")
+      .digest("hex");
+
+    // Timing-safe comparison
+    try {
+      authenticated =
+        signedContent !== null &&
+        crypto.timingSafeEqual(
+          Buffer.from(hmacSignature),
+          Buffer.from(expectedSignature)
+        );
+    } catch {
+      authenticated = false;
+    }
+
+    if (!authenticated) {
+      apiLog.error(`${eventPrefix}_invalid_hmac`);
+    }
+  }
+  // Opção 2: Bearer Token (compatibilidade - menos seguro)
+  else if (authHeader && authHeader.startsWith("Bearer ")) {
+    const token = authHeader.substring(7);
+    authenticated = token === secret;
+
+    if (!authenticated) {
+      apiLog.error(`${eventPrefix}_invalid_bearer_token`);
+    }
+  }
+
+  // Se nenhuma autenticação fornecida ou ambas inválidas
+  if (!authenticated) {
+    apiLog.error(`${eventPrefix}_unauthorized`, {
+      has_bearer: !!authHeader,
+      has_hmac: !!hmacSignature,
+    });
+    res.writeHead(401, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error:
+          "Unauthorized. Use: Authorization: Bearer <token> OR X-Webhook-Signature: <hmac>",
+      })
+    );
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Normaliza o estado interno do BullMQ para o contrato público da API
+ */
+function toPublicJobState(state: string): QueueJobState {
+  switch (state) {
+    case "waiting":
+    case "prioritized":
+    case "waiting-children":
+      return "waiting";
+    case "active":
+    case "delayed":
+    case "completed":
+    case "failed":
+      return state;
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Monta a resposta de status de um job de webhook
+ */
+function buildJobStatusResponse(
+  job: Job<WebhookJobData>,
+  state: string
+): QueueJobStatusResponse {
+  const progress = (
+    typeof job.progress === "object" ? job.progress : null
+  ) as WebhookDeliveryProgress | null;
+
+  const toIso = (value?: number | null) =>
+    value ? new Date(value).toISOString() : null;
+
+  return {
+    jobId: job.id!,
+    tenantId: job.data.tenantId,
+    state: toPublicJobState(state),
+    attemptsMade: job.attemptsMade,
+    maxAttempts: job.opts.attempts || 1,
+    lastError:
+      job.failedReason || progress?.errorCategory
+        ? {
+            message: job.failedReason || "",
+            category: progress?.errorCategory ?? null,
+            statusCode: progress?.statusCode ?? null,
+          }
+        : null,
+    timestamps: {
+      createdAt: new Date(job.timestamp).toISOString(),
+      processedAt: toIso(job.processedOn),
+      finishedAt: toIso(job.finishedOn),
+    },
+    returnValue: job.returnvalue ?? null,
+  };
+}
+
+/**
+ * Resumo compacto de um job para a listagem
+ */
+function buildJobSummary(
+  job: Job<WebhookJobData>,
+  state: string
+): QueueJobSummary {
+  const progress = (
+    typeof job.progress === "object" ? job.progress : null
+  ) as WebhookDeliveryProgress | null;
+
+  return {
+    jobId: job.id!,
+    tenantId: job.data.tenantId,
+    integrationId: job.data.integrationId,
+    negocioId: job.data.negocioId,
+    state: toPublicJobState(state),
+    url: getJobDestinationUrl(job.data),
+    method: job.data.destination?.method || job.data.method || "POST",
+    attemptsMade: job.attemptsMade,
+    maxAttempts: job.opts.attempts || 1,
+    lastStatusCode: progress?.statusCode ?? job.returnvalue?.statusCode ?? null,
+    errorCategory: progress?.errorCategory ?? null,
+    createdAt: new Date(job.timestamp).toISOString(),
+    finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+  };
+}
+
 function createHealthServer(port: number = 3002) {
   const server = http.createServer(async (req, res) => {
     // CORS
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader(
+      "Access-Control-Allow-Methods",
+      "GET, POST, PUT, DELETE, OPTIONS"
+    );
     res.setHeader(
       "Access-Control-Allow-Headers",
-      "Content-Type, Authorization"
+      "Content-Type, Authorization, Idempotency-Key, X-Webhook-Signature, X-Webhook-Timestamp"
     );
 
     if (req.method === "OPTIONS") {
@@ -244,7 +576,14 @@ function createHealthServer(port: number = 3002) {
             "/queue/health",
             "/queue/ready",
             "/queue/live",
+            "/queue/webhooks",
             "/queue/webhooks/add",
+            "/queue/webhooks/batch",
+            "/queue/webhooks/:jobId",
+            "/queue/webhooks/dead",
+            "/queue/callbacks/dead",
+            "/queue/schedules",
+            "/queue/tenants/:tenantId/policy",
           ],
           timestamp: new Date().toISOString(),
         })
@@ -264,29 +603,21 @@ function createHealthServer(port: number = 3002) {
         res.end(JSON.stringify(health, null, 2));
 
         // Log estruturado do health check
-        console.log(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: statusCode === 200 ? "info" : "warn",
-            service: "health-server",
-            event: "health_check",
+        healthServerLog.log(
+          statusCode === 200 ? "info" : "warn",
+          "health_check",
+          {
             status: health.status,
             http_status: statusCode,
             redis_connected: health.redis.connected,
             redis_rtt_ms: health.redis.rtt_ms,
             worker_active: health.workers.webhook.active,
-          })
+          }
         );
       } catch (error) {
-        console.error(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "error",
-            service: "health-server",
-            event: "health_check_error",
-            error: error instanceof Error ? error.message : String(error),
-          })
-        );
+        healthServerLog.error("health_check_error", {
+          error: error instanceof Error ? error.message : String(error),
+        });
 
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(
@@ -337,15 +668,9 @@ function createHealthServer(port: number = 3002) {
           })
         );
       } catch (error: any) {
-        console.error(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "error",
-            service: "health-server",
-            event: "redis_diagnostic_failed",
-            error: error.message,
-          })
-        );
+        healthServerLog.error("redis_diagnostic_failed", {
+          error: error.message,
+        });
 
         res.writeHead(503, { "Content-Type": "application/json" });
         res.end(
@@ -418,190 +743,106 @@ function createHealthServer(port: number = 3002) {
       req.on("end", async () => {
         try {
           // 🔐 VALIDAR AUTENTICAÇÃO (suporta Bearer Token OU HMAC)
-          const authHeader = req.headers["authorization"] as string;
-          const hmacSignature = req.headers["x-webhook-signature"] as string;
-          const secret = process.env.QUEUE_WORKER_SECRET;
-
-          if (!secret) {
-            console.error(
-              JSON.stringify({
-                timestamp: new Date().toISOString(),
-                level: "error",
-                service: "api",
-                event: "queue_add_no_secret_configured",
-              })
-            );
-            res.writeHead(500, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                error: "Server configuration error",
-              })
-            );
+          if (!(await authenticateRequest(req, res, body, "queue_add"))) {
             return;
           }
 
-          // Validar autenticação (aceita Bearer Token OU HMAC)
-          let authenticated = false;
-
-          // Opção 1: HMAC Signature (RECOMENDADO - mais seguro)
-          if (hmacSignature) {
-            const crypto = await import("crypto");
-            const expectedSignature = crypto
-              .createHmac("sha256", secret)
-              .update(body)
-              .digest("hex");
+          const data = JSON.parse(body);
 
-            // Timing-safe comparison
-            try {
-              authenticated = crypto.timingSafeEqual(
-                Buffer.from(hmacSignature),
-                Buffer.from(expectedSignature)
-              );
-            } catch {
-              authenticated = false;
-            }
+          // ✅ LOG: Sempre logar payload recebido para debug
+          apiLog.info("webhook_request_received", {
+            payload: data,
+            payload_keys: Object.keys(data),
+          });
 
-            if (!authenticated) {
-              console.error(
-                JSON.stringify({
-                  timestamp: new Date().toISOString(),
-                  level: "error",
-                  service: "api",
-                  event: "queue_add_invalid_hmac",
-                })
-              );
-            }
-          }
-          // Opção 2: Bearer Token (compatibilidade - menos seguro)
-          else if (authHeader && authHeader.startsWith("Bearer ")) {
-            const token = authHeader.substring(7);
-            authenticated = token === secret;
+          // 🆕 Detectar formato (antigo ou novo)
+          const isNewFormat = isNewFormatPayload(data);
 
-            if (!authenticated) {
-              console.error(
-                JSON.stringify({
-                  timestamp: new Date().toISOString(),
-                  level: "error",
-                  service: "api",
-                  event: "queue_add_invalid_bearer_token",
-                })
-              );
-            }
-          }
+          // Validação básica (suporta AMBOS os formatos)
+          const validationError = validateEnqueuePayload(data);
+          if (validationError) {
+            apiLog.error("webhook_validation_failed", {
+              error: validationError.reason,
+              payload: data,
+            });
 
-          // Se nenhuma autenticação fornecida ou ambas inválidas
-          if (!authenticated) {
-            console.error(
-              JSON.stringify({
-                timestamp: new Date().toISOString(),
-                level: "error",
-                service: "api",
-                event: "queue_add_unauthorized",
-                has_bearer: !!authHeader,
-                has_hmac: !!hmacSignature,
-              })
-            );
-            res.writeHead(401, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                error:
-                  "Unauthorized. Use: Authorization: Bearer <token> OR X-Webhook-Signature: <hmac>",
-              })
-            );
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(validationError.response));
             return;
           }
 
-          const data = JSON.parse(body);
+          // 🆕 Política de destinos do tenant (hosts permitidos)
+          try {
+            await assertDestinationAllowed(
+              data.tenantId,
+              getDestinationUrl(data)!
+            );
+          } catch (error) {
+            if (!(error instanceof DestinationNotAllowedError)) throw error;
 
-          // ✅ LOG: Sempre logar payload recebido para debug
-          console.log(
-            JSON.stringify({
-              timestamp: new Date().toISOString(),
-              level: "info",
-              service: "api",
-              event: "webhook_request_received",
-              payload: data,
-              payload_keys: Object.keys(data),
-            })
-          );
+            apiLog.warn("webhook_destination_not_allowed", {
+              tenant_id: data.tenantId,
+              webhook_url: getDestinationUrl(data),
+            });
 
-          // 🆕 Detectar formato (antigo ou novo)
-          const isNewFormat = !!data.destination;
+            res.writeHead(403, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: error.message, code: error.code }));
+            return;
+          }
 
-          // Validação básica (suporta AMBOS os formatos)
-          if (!data.tenantId) {
-            console.error(
-              JSON.stringify({
-                timestamp: new Date().toISOString(),
-                level: "error",
-                service: "api",
-                event: "webhook_validation_failed",
-                error: "Missing tenantId",
-                payload: data,
-              })
-            );
+          // 🔁 Idempotency-Key (header OU options.idempotencyKey)
+          const idempotencyKey =
+            (req.headers["idempotency-key"] as string | undefined) ||
+            data.options?.idempotencyKey;
 
+          const idempotencyKeyError = getIdempotencyKeyError(idempotencyKey);
+          if (idempotencyKeyError) {
             res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                error: "Missing required field: tenantId",
-              })
-            );
+            res.end(JSON.stringify({ error: idempotencyKeyError }));
             return;
           }
 
-          // Validar campos obrigatórios conforme formato
-          if (isNewFormat) {
-            // Formato NOVO: destination obrigatório
-            if (!data.destination?.url || !data.destination?.method) {
-              console.error(
-                JSON.stringify({
-                  timestamp: new Date().toISOString(),
-                  level: "error",
-                  service: "api",
-                  event: "webhook_validation_failed",
-                  error:
-                    "New format missing destination.url or destination.method",
-                  payload: data,
-                })
-              );
+          let idempotency: IdempotencyResult | null = null;
+
+          if (idempotencyKey) {
+            idempotency = await reserveIdempotencyKey(
+              data.tenantId,
+              idempotencyKey,
+              getPayloadFingerprint(data)
+            );
+
+            if (idempotency.status === "conflict") {
+              apiLog.warn("webhook_idempotency_conflict", {
+                job_id: idempotency.jobId,
+                tenant_id: data.tenantId,
+              });
 
-              res.writeHead(400, { "Content-Type": "application/json" });
+              res.writeHead(409, { "Content-Type": "application/json" });
               res.end(
                 JSON.stringify({
+                  success: false,
+                  jobId: idempotency.jobId,
                   error:
-                    "Missing required fields: destination.url, destination.method",
+                    "Idempotency key already used with a different payload",
+                  code: IDEMPOTENCY_CONFLICT,
                 })
               );
               return;
             }
-          } else {
-            // Formato ANTIGO: url, method, integrationId obrigatórios
-            if (!data.integrationId || !data.url || !data.method) {
-              console.error(
-                JSON.stringify({
-                  timestamp: new Date().toISOString(),
-                  level: "error",
-                  service: "api",
-                  event: "webhook_validation_failed",
-                  error: "Old format missing integrationId, url or method",
-                  received_fields: {
-                    tenantId: !!data.tenantId,
-                    integrationId: !!data.integrationId,
-                    url: !!data.url,
-                    method: !!data.method,
-                  },
-                  payload: data,
-                })
-              );
 
-              res.writeHead(400, { "Content-Type": "application/json" });
+            if (idempotency.status === "replay") {
+              apiLog.info("webhook_idempotent_replay", {
+                job_id: idempotency.jobId,
+                tenant_id: data.tenantId,
+              });
+
+              // 200 OK (não 202): nada novo foi enfileirado
+              res.writeHead(200, { "Content-Type": "application/json" });
               res.end(
                 JSON.stringify({
-                  error:
-                    "Missing required fields: tenantId, integrationId, url, method",
-                  received: Object.keys(data),
-                  expected: ["tenantId", "integrationId", "url", "method"],
+                  success: true,
+                  jobId: idempotency.jobId,
+                  message: "Duplicate request - original job returned",
                 })
               );
               return;
@@ -614,89 +855,269 @@ function createHealthServer(port: number = 3002) {
           const queue = new Queue("webhooks", { connection: redis });
 
           // 🆕 Payload normalizado (suporta AMBOS os formatos)
-          const jobPayload = isNewFormat
-            ? {
-                // Formato NOVO
-                tenantId: data.tenantId,
-                integrationId: data.integrationId,
-                integrationName: data.integrationName,
-                negocioId: data.negocioId,
-                jobType: data.jobType || "webhook",
-                destination: data.destination,
-                callback: data.callback,
-                metadata: data.metadata,
-                timestamp: new Date().toISOString(),
-              }
-            : {
-                // Formato ANTIGO (compatibilidade retroativa)
-                tenantId: data.tenantId,
-                integrationId: data.integrationId,
-                integrationName: data.integrationName || "Webhook",
-                negocioId: data.negocioId,
-                url: data.url,
-                method: data.method,
-                headers: data.headers || {},
-                body: data.body || {},
-                timestamp: new Date().toISOString(),
-              };
+          const jobPayload = buildWebhookJobData(data);
+
+          let job;
+          try {
+            job = await queue.add("webhook", jobPayload, {
+              ...buildJobOptions(data),
+              jobId: idempotency?.jobId,
+            });
+          } catch (error) {
+            // Liberar a chave para que o cliente possa tentar novamente
+            if (idempotencyKey) {
+              await releaseIdempotencyKey(data.tenantId, idempotencyKey);
+            }
+            throw error;
+          } finally {
+            await queue.close();
+          }
 
-          const job = await queue.add("webhook", jobPayload, {
-            attempts: data.options?.retries || 5,
-            backoff: {
-              type: "exponential",
-              delay: data.options?.backoff || 2000,
-            },
-          });
+          const scheduledFor = getScheduledFor(job);
 
-          await queue.close();
+          apiLog.info("webhook_job_added", {
+            job_id: job.id,
+            tenant_id: data.tenantId,
+            integration_id: data.integrationId,
+            webhook_url: getDestinationUrl(data),
+            format: isNewFormat ? "new" : "old",
+            scheduled_for: scheduledFor,
+          });
 
-          console.log(
-            JSON.stringify({
-              timestamp: new Date().toISOString(),
-              level: "info",
-              service: "api",
-              event: "webhook_job_added",
-              job_id: job.id,
-              tenant_id: data.tenantId,
-              integration_id: data.integrationId,
-              webhook_url: isNewFormat ? data.destination.url : data.url,
-              format: isNewFormat ? "new" : "old",
-            })
-          );
+          const response: QueueEnqueueResponse = {
+            success: true,
+            jobId: job.id!,
+            scheduledFor,
+            message: scheduledFor
+              ? "Webhook job scheduled for delivery"
+              : "Webhook job accepted for processing",
+          };
 
           // Return 202 Accepted to indicate asynchronous processing
           res.writeHead(202, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(response));
+        } catch (error: any) {
+          // ✅ LOG: Erro detalhado com stack trace e body recebido (mascarado)
+          apiLog.error("webhook_job_add_failed", {
+            error: error.message,
+            error_stack: error.stack,
+            error_name: error.name,
+            ...redactRequestBody(body),
+          });
+
+          res.writeHead(500, { "Content-Type": "application/json" });
           res.end(
             JSON.stringify({
-              success: true,
-              jobId: job.id,
-              message: "Webhook job accepted for processing",
+              error: "Failed to add job to queue",
+              message: error.message,
             })
           );
-        } catch (error: any) {
-          // ✅ LOG: Erro detalhado com stack trace e body recebido
-          console.error(
+        }
+      });
+      return;
+    }
+
+    // ✅ POST /queue/webhooks/batch - Adicionar vários jobs de uma vez (addBulk)
+    if (path === "/queue/webhooks/batch" && req.method === "POST") {
+      const body = await readRequestBody(req);
+
+      try {
+        // 🔐 Uma única autenticação cobre o lote inteiro
+        if (!(await authenticateRequest(req, res, body, "queue_batch"))) {
+          return;
+        }
+
+        const data = JSON.parse(body);
+        const items: any[] | undefined = Array.isArray(data)
+          ? data
+          : data?.jobs;
+        const maxBatchSize = parseInt(process.env.BATCH_MAX_SIZE || "500", 10);
+
+        if (!Array.isArray(items) || items.length === 0) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(
             JSON.stringify({
-              timestamp: new Date().toISOString(),
-              level: "error",
-              service: "api",
-              event: "webhook_job_add_failed",
-              error: error.message,
-              error_stack: error.stack,
-              error_name: error.name,
-              received_body: body.substring(0, 500), // Primeiros 500 chars
+              error: "Expected a non-empty array of jobs (or { jobs: [...] })",
             })
           );
+          return;
+        }
 
-          res.writeHead(500, { "Content-Type": "application/json" });
+        if (items.length > maxBatchSize) {
+          res.writeHead(413, { "Content-Type": "application/json" });
           res.end(
             JSON.stringify({
-              error: "Failed to add job to queue",
-              message: error.message,
+              error: `Batch too large: ${items.length} jobs (max ${maxBatchSize})`,
             })
           );
+          return;
         }
-      });
+
+        const results: QueueBatchItemResult[] = [];
+        const toEnqueue: {
+          index: number;
+          item: any;
+          jobId?: string;
+          idempotencyKey?: string;
+        }[] = [];
+
+        // ⚠️ Qualquer erro inesperado (Redis, política, addBulk) falha o lote
+        // inteiro: liberar TODAS as chaves reservadas nesta requisição para que
+        // o cliente possa retentar com as mesmas chaves
+        try {
+          // 1. Validar cada item com as mesmas regras do endpoint individual
+          for (const [index, item] of items.entries()) {
+            const validationError = validateEnqueuePayload(item);
+            if (validationError) {
+              results[index] = {
+                index,
+                success: false,
+                error: validationError.response.error,
+                code: validationError.response.code,
+              };
+              continue;
+            }
+
+            try {
+              await assertDestinationAllowed(
+                item.tenantId,
+                getDestinationUrl(item)!
+              );
+            } catch (error) {
+              if (!(error instanceof DestinationNotAllowedError)) throw error;
+
+              results[index] = {
+                index,
+                success: false,
+                error: error.message,
+                code: error.code,
+              };
+              continue;
+            }
+
+            const idempotencyKey = item.options?.idempotencyKey;
+            const idempotencyKeyError = getIdempotencyKeyError(idempotencyKey);
+            if (idempotencyKeyError) {
+              results[index] = {
+                index,
+                success: false,
+                error: idempotencyKeyError,
+              };
+              continue;
+            }
+
+            if (idempotencyKey === undefined) {
+              toEnqueue.push({ index, item });
+              continue;
+            }
+
+            const idempotency = await reserveIdempotencyKey(
+              item.tenantId,
+              idempotencyKey,
+              getPayloadFingerprint(item)
+            );
+
+            if (idempotency.status === "conflict") {
+              results[index] = {
+                index,
+                success: false,
+                jobId: idempotency.jobId,
+                error: "Idempotency key already used with a different payload",
+                code: IDEMPOTENCY_CONFLICT,
+              };
+            } else if (idempotency.status === "replay") {
+              results[index] = {
+                index,
+                success: true,
+                jobId: idempotency.jobId,
+                duplicate: true,
+                code: IDEMPOTENT_REPLAY,
+              };
+            } else {
+              toEnqueue.push({
+                index,
+                item,
+                jobId: idempotency.jobId,
+                idempotencyKey,
+              });
+            }
+          }
+
+          // 2. Enfileirar todos os válidos atomicamente
+          if (toEnqueue.length > 0) {
+            const { Queue } = await import("bullmq");
+            const redis = getRedisSingleton();
+            const queue = new Queue("webhooks", { connection: redis });
+
+            try {
+              const jobs = await queue.addBulk(
+                toEnqueue.map(({ item, jobId }) => ({
+                  name: "webhook",
+                  data: buildWebhookJobData(item),
+                  opts: { ...buildJobOptions(item), jobId },
+                }))
+              );
+
+              jobs.forEach((job, position) => {
+                const { index } = toEnqueue[position];
+                results[index] = {
+                  index,
+                  success: true,
+                  jobId: job.id!,
+                  scheduledFor: getScheduledFor(job),
+                };
+              });
+            } finally {
+              await queue.close();
+            }
+          }
+        } catch (error) {
+          for (const { item, idempotencyKey } of toEnqueue) {
+            if (idempotencyKey) {
+              await releaseIdempotencyKey(item.tenantId, idempotencyKey).catch(
+                () => {}
+              );
+            }
+          }
+          throw error;
+        }
+
+        const accepted = results.filter((r) => r.success).length;
+        const response: QueueBatchEnqueueResponse = {
+          success: accepted > 0,
+          total: items.length,
+          accepted,
+          rejected: items.length - accepted,
+          results,
+        };
+
+        apiLog.log(accepted > 0 ? "info" : "warn", "webhook_batch_added", {
+          total: response.total,
+          enqueued: toEnqueue.length,
+          accepted: response.accepted,
+          rejected: response.rejected,
+        });
+
+        res.writeHead(accepted > 0 ? 202 : 400, {
+          "Content-Type": "application/json",
+        });
+        res.end(JSON.stringify(response));
+      } catch (error: any) {
+        apiLog.error("webhook_batch_add_failed", {
+          error: error.message,
+          error_stack: error.stack,
+          error_name: error.name,
+          ...redactRequestBody(body),
+        });
+
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Failed to add batch to queue",
+            message: error.message,
+          })
+        );
+      }
       return;
     }
 
@@ -707,39 +1128,994 @@ function createHealthServer(port: number = 3002) {
         const redis = getRedisSingleton();
         const queue = new Queue("webhooks", { connection: redis });
 
-        const counts = await queue.getJobCounts(
+        const { prioritized, ...counts } = await queue.getJobCounts(
           "waiting",
+          "prioritized",
           "active",
           "completed",
           "failed",
           "delayed"
         );
 
+        // Contagem de jobs aguardando por prioridade (waiting + prioritized)
+        const perPriority = await queue.getCountsPerPriority(
+          Object.values(JOB_PRIORITIES)
+        );
+
         await queue.close();
 
+        // Jobs priorizados também estão aguardando processamento
+        counts.waiting += prioritized;
+
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(
           JSON.stringify({
             queue: "webhooks",
             counts,
+            priorities: Object.fromEntries(
+              Object.entries(JOB_PRIORITIES).map(([name, value]) => [
+                name,
+                perPriority[value] || 0,
+              ])
+            ),
             timestamp: new Date().toISOString(),
           })
         );
       } catch (error: any) {
-        console.error(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "error",
-            service: "api",
-            event: "queue_stats_failed",
+        apiLog.error("queue_stats_failed", {
+          error: error.message,
+        });
+
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Failed to get queue stats",
+            message: error.message,
+          })
+        );
+      }
+      return;
+    }
+
+    // ✅ GET /queue/webhooks - Listagem/busca de jobs com paginação por cursor
+    // Filtros: state (lista), tenantId, integrationId, negocioId, host, from, to
+    if (path === "/queue/webhooks" && req.method === "GET") {
+      if (!(await authenticateRequest(req, res, "", "queue_job_list"))) {
+        return;
+      }
+
+      const { Queue } = await import("bullmq");
+      const redis = getRedisSingleton();
+      const queue = new Queue<WebhookJobData>("webhooks", {
+        connection: redis,
+      });
+
+      try {
+        const params = Object.fromEntries(urlObj.searchParams);
+        const filter = parseJobFilter(params);
+        const states = parseJobStates(params.state);
+        const limit = Math.min(Math.max(Number(params.limit) || 50, 1), 200);
+
+        const { jobs, nextCursor } = await listJobs(queue, states, filter, {
+          cursor: params.cursor,
+          limit,
+        });
+
+        const response: QueueJobListResponse = {
+          jobs: jobs.map(({ job, state }) => buildJobSummary(job, state)),
+          nextCursor,
+        };
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(response));
+      } catch (error: any) {
+        const isValidationError = error instanceof JobFilterError;
+
+        apiLog.log(
+          isValidationError ? "warn" : "error",
+          isValidationError
+            ? "queue_job_list_invalid_filter"
+            : "queue_job_list_failed",
+          {
             error: error.message,
+          }
+        );
+
+        res.writeHead(isValidationError ? 400 : 500, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            error: isValidationError ? error.message : "Failed to list jobs",
+            message: error.message,
+          })
+        );
+      } finally {
+        await queue.close();
+      }
+      return;
+    }
+
+    // ✅ /queue/webhooks/dead e /queue/callbacks/dead - Dead-letter queues
+    // GET lista | GET /:id detalhe | POST /:id/requeue | DELETE /:id
+    // ⚠️ Antes de /queue/webhooks/:jobId para não ser tratado como jobId
+    const deadLetterMatch = path.match(
+      /^\/queue\/(webhooks|callbacks)\/dead(?:\/([^/]+)(?:\/(requeue))?)?$/
+    );
+    if (deadLetterMatch && req.method !== "OPTIONS") {
+      const body = await readRequestBody(req);
+
+      if (!(await authenticateRequest(req, res, body, "queue_dead_letter"))) {
+        return;
+      }
+
+      const sourceQueue = deadLetterMatch[1];
+      const deadJobId = deadLetterMatch[2]
+        ? decodeURIComponent(deadLetterMatch[2])
+        : null;
+      const isRequeue = !!deadLetterMatch[3];
+      const tenantParam = urlObj.searchParams.get("tenantId");
+      const tenantId = tenantParam ? Number(tenantParam) : undefined;
+      const deadLetterQueue = getDeadLetterQueue(sourceQueue);
+
+      // URL de destino do job original (webhook ou callback)
+      const getEntryUrl = (data: any): string | undefined =>
+        sourceQueue === CALLBACK_QUEUE_NAME
+          ? data.callbackUrl
+          : getDestinationUrl(data);
+
+      try {
+        if (!deadJobId && req.method === "GET") {
+          const offset = Number(urlObj.searchParams.get("cursor") || 0);
+          const limit = Math.min(
+            Math.max(Number(urlObj.searchParams.get("limit")) || 50, 1),
+            200
+          );
+
+          const { entries, nextOffset } = await deadLetterQueue.listDeadJobs({
+            tenantId,
+            offset,
+            limit,
+          });
+
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              jobs: entries.map((entry) => ({
+                id: entry.id,
+                tenantId: entry.tenantId,
+                originalJobId: entry.originalJobId,
+                url: getEntryUrl(entry.originalData),
+                attemptsMade: entry.attemptsMade,
+                failedReason: entry.failedReason,
+                deadAt: entry.deadAt,
+              })),
+              nextCursor: nextOffset === null ? null : String(nextOffset),
+            })
+          );
+          return;
+        }
+
+        const isKnownRoute =
+          deadJobId &&
+          ((isRequeue && req.method === "POST") ||
+            (!isRequeue && (req.method === "GET" || req.method === "DELETE")));
+
+        if (!isKnownRoute) {
+          res.writeHead(405, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Method not allowed" }));
+          return;
+        }
+
+        const entry = await deadLetterQueue.getDeadJob(deadJobId!, tenantId);
+
+        if (!entry) {
+          res.writeHead(404, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "Dead-letter job not found",
+              id: deadJobId,
+            })
+          );
+          return;
+        }
+
+        if (req.method === "GET") {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(entry));
+          return;
+        }
+
+        if (req.method === "DELETE") {
+          await deadLetterQueue.removeDeadJob(entry.id);
+
+          apiLog.info("dead_letter_job_deleted", {
+            source_queue: sourceQueue,
+            dead_job_id: entry.id,
+            original_job_id: entry.originalJobId,
+            tenant_id: entry.tenantId,
+          });
+
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ success: true, id: entry.id }));
+          return;
+        }
+
+        // POST /:id/requeue - URL opcional para corrigir o destino
+        const input = body ? JSON.parse(body) : {};
+
+        if (input.url !== undefined && !isHttpUrl(input.url)) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({ error: "Invalid url (expected http or https)" })
+          );
+          return;
+        }
+
+        // 🆕 SSRF: a nova URL passa pela mesma validação do enfileiramento
+        const urlBlockReason =
+          input.url !== undefined ? getUrlBlockReason(input.url) : null;
+        if (urlBlockReason) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: `Blocked url: ${urlBlockReason}`,
+              code: SSRF_BLOCKED,
+            })
+          );
+          return;
+        }
+
+        const newJobId = await deadLetterQueue.requeue(entry, (data) => {
+          if (sourceQueue === CALLBACK_QUEUE_NAME) {
+            return { ...data, callbackUrl: input.url || data.callbackUrl };
+          }
+
+          const { schedulePayload: _schedulePayload, ...rest } =
+            data as WebhookJobData;
+          return withDestinationUrl(rest, input.url);
+        });
+
+        apiLog.info("dead_letter_job_requeued", {
+          source_queue: sourceQueue,
+          dead_job_id: entry.id,
+          original_job_id: entry.originalJobId,
+          job_id: newJobId,
+          tenant_id: entry.tenantId,
+          url_overridden: !!input.url,
+        });
+
+        res.writeHead(202, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            success: true,
+            jobId: newJobId,
+            requeuedFrom: entry.id,
+            originalJobId: entry.originalJobId,
+          })
+        );
+      } catch (error: any) {
+        const isValidationError = error instanceof SyntaxError;
+
+        apiLog.error("dead_letter_request_failed", {
+          source_queue: sourceQueue,
+          method: req.method,
+          dead_job_id: deadJobId,
+          error: error.message,
+        });
+
+        res.writeHead(isValidationError ? 400 : 500, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            error: isValidationError
+              ? "Invalid JSON body"
+              : "Failed to process dead-letter request",
+            message: error.message,
           })
         );
+      }
+      return;
+    }
+
+    // ✅ GET /queue/webhooks/:jobId - Status de um job específico
+    const jobStatusMatch = path.match(/^\/queue\/webhooks\/([^/]+)$/);
+    if (jobStatusMatch && req.method === "GET") {
+      if (!(await authenticateRequest(req, res, "", "queue_job_status"))) {
+        return;
+      }
+
+      const jobId = decodeURIComponent(jobStatusMatch[1]);
+      const tenantFilter = urlObj.searchParams.get("tenantId");
+
+      const { Queue } = await import("bullmq");
+      const redis = getRedisSingleton();
+      const queue = new Queue<WebhookJobData>("webhooks", {
+        connection: redis,
+      });
+
+      try {
+        const job = await queue.getJob(jobId);
+
+        // Job inexistente (ou de outro tenant) → 404 sem distinção
+        if (
+          !job ||
+          (tenantFilter && String(job.data.tenantId) !== tenantFilter)
+        ) {
+          res.writeHead(404, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Job not found", jobId }));
+          return;
+        }
+
+        const state = await job.getState();
+        const response = buildJobStatusResponse(job, state);
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(response));
+      } catch (error: any) {
+        apiLog.error("queue_job_status_failed", {
+          job_id: jobId,
+          error: error.message,
+        });
 
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(
           JSON.stringify({
-            error: "Failed to get queue stats",
+            error: "Failed to get job status",
+            message: error.message,
+          })
+        );
+      } finally {
+        await queue.close();
+      }
+      return;
+    }
+
+    // ✅ DELETE /queue/webhooks/:jobId - Cancelar job pendente (waiting/delayed)
+    if (jobStatusMatch && req.method === "DELETE") {
+      if (!(await authenticateRequest(req, res, "", "queue_job_cancel"))) {
+        return;
+      }
+
+      const jobId = decodeURIComponent(jobStatusMatch[1]);
+      const tenantId = urlObj.searchParams.get("tenantId");
+      const notifyCallback =
+        urlObj.searchParams.get("notifyCallback") === "true";
+
+      // Cancelamento é sempre escopado por tenant
+      if (!tenantId) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Missing required query parameter: tenantId",
+          })
+        );
+        return;
+      }
+
+      const { Queue } = await import("bullmq");
+      const redis = getRedisSingleton();
+      const queue = new Queue<WebhookJobData>("webhooks", {
+        connection: redis,
+      });
+
+      try {
+        const job = await queue.getJob(jobId);
+
+        if (!job || String(job.data.tenantId) !== tenantId) {
+          res.writeHead(404, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Job not found", jobId }));
+          return;
+        }
+
+        const state = toPublicJobState(await job.getState());
+
+        if (state !== "waiting" && state !== "delayed") {
+          res.writeHead(409, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: `Job cannot be cancelled in state "${state}"`,
+              jobId,
+              state,
+            })
+          );
+          return;
+        }
+
+        try {
+          await job.remove();
+        } catch (error: any) {
+          // Job foi pego por um worker entre a leitura do estado e o remove
+          res.writeHead(409, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "Job is no longer pending",
+              jobId,
+              message: error.message,
+            })
+          );
+          return;
+        }
+
+        apiLog.info("webhook_job_cancelled", {
+          job_id: jobId,
+          tenant_id: job.data.tenantId,
+          previous_state: state,
+          notify_callback: notifyCallback,
+        });
+
+        // 🆕 Callback opcional com status "cancelled"
+        const callbackUrl = job.data.callback?.url;
+        const callbackSecret =
+          job.data.callback?.secret || process.env.QUEUE_WORKER_SECRET || "";
+        let callbackSent = false;
+
+        if (notifyCallback && callbackUrl && callbackSecret) {
+          const now = new Date().toISOString();
+          const callbackPayload: WorkerCallbackPayload = {
+            jobId,
+            jobType: job.data.jobType || "webhook",
+            tenantId: job.data.tenantId,
+            integrationId: job.data.integrationId,
+            negocioId: job.data.negocioId,
+            status: "cancelled",
+            success: false,
+            destination: {
+              url: job.data.destination?.url || job.data.url || "",
+              method: job.data.destination?.method || job.data.method || "POST",
+              statusCode: 0,
+              duration: 0,
+            },
+            execution: {
+              attempt: job.attemptsMade,
+              maxAttempts: job.opts.attempts || 1,
+              startedAt: new Date(job.timestamp).toISOString(),
+              completedAt: now,
+              duration: 0,
+            },
+            metadata: job.data.metadata,
+          };
+
+          // ✅ Enfileirar na fila "callbacks" (entrega durável com retries)
+          try {
+            await enqueueCallback(
+              callbackPayload,
+              callbackUrl,
+              job.data.callback?.secret
+            );
+            callbackSent = true;
+          } catch (err: any) {
+            apiLog.error("callback_enqueue_failed", {
+              job_id: jobId,
+              error: err.message,
+            });
+          }
+        }
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            success: true,
+            jobId,
+            status: "cancelled",
+            previousState: state,
+            callbackSent,
+          })
+        );
+      } catch (error: any) {
+        apiLog.error("queue_job_cancel_failed", {
+          job_id: jobId,
+          error: error.message,
+        });
+
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Failed to cancel job",
+            message: error.message,
+          })
+        );
+      } finally {
+        await queue.close();
+      }
+      return;
+    }
+
+    // ✅ POST /queue/webhooks/bulk/retry | /bulk/replay - Reprocessar em massa
+    // Filtros: tenantId (obrigatório), integrationId, from, to (ISO 8601)
+    const bulkActionMatch = path.match(
+      /^\/queue\/webhooks\/bulk\/(retry|replay)$/
+    );
+    if (bulkActionMatch && req.method === "POST") {
+      const body = await readRequestBody(req);
+
+      // 🔐 Corpo genérico ({ tenantId }): assinatura presa à rota e ao tempo
+      if (
+        !(await authenticateRequest(req, res, body, "queue_bulk_action", {
+          requireTimestamp: true,
+        }))
+      ) {
+        return;
+      }
+
+      const action = bulkActionMatch[1] as "retry" | "replay";
+
+      const { Queue } = await import("bullmq");
+      const redis = getRedisSingleton();
+      const queue = new Queue<WebhookJobData>("webhooks", {
+        connection: redis,
+      });
+
+      try {
+        const input = JSON.parse(body || "{}");
+        const filter = parseJobFilter(input);
+        const limit = Math.min(Math.max(Number(input.limit) || 100, 1), 1000);
+        const states: ("completed" | "failed")[] =
+          action === "retry" ? ["failed"] : input.states ?? ["failed"];
+
+        if (!filter.tenantId) {
+          throw new JobFilterError("Missing required field: tenantId");
+        }
+        if (
+          !Array.isArray(states) ||
+          states.length === 0 ||
+          states.some((state) => !["completed", "failed"].includes(state))
+        ) {
+          throw new JobFilterError(
+            "Invalid states (expected a non-empty array of: completed, failed)"
+          );
+        }
+        if (input.url !== undefined && !isHttpUrl(input.url)) {
+          throw new JobFilterError("Invalid url (expected http or https)");
+        }
+        const urlBlockReason =
+          input.url !== undefined ? getUrlBlockReason(input.url) : null;
+        if (urlBlockReason) {
+          throw new JobFilterError(`Blocked url: ${urlBlockReason}`);
+        }
+
+        // 1. Selecionar jobs que atendem ao filtro
+        const matched: Job<WebhookJobData>[] = [];
+        for (const state of states) {
+          const { jobs } = await scanJobs(queue, state, filter, {
+            limit: limit - matched.length,
+          });
+          matched.push(...jobs);
+          if (matched.length >= limit) break;
+        }
+
+        // 2. Reprocessar
+        const jobIds: string[] = [];
+        const errors: { jobId: string; error: string }[] = [];
+
+        if (action === "retry") {
+          for (const job of matched) {
+            try {
+              await job.retry("failed");
+              jobIds.push(job.id!);
+            } catch (error: any) {
+              errors.push({ jobId: job.id!, error: error.message });
+            }
+          }
+        } else if (matched.length > 0) {
+          const replays = await queue.addBulk(
+            matched.map((job) => buildReplayJob(job, input.url))
+          );
+          jobIds.push(...replays.map((job) => job.id!));
+        }
+
+        apiLog.info(
+          action === "retry" ? "webhook_bulk_retried" : "webhook_bulk_replayed",
+          {
+            tenant_id: filter.tenantId,
+            integration_id: filter.integrationId,
+            matched: matched.length,
+            processed: jobIds.length,
+            errors: errors.length,
+          }
+        );
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            success: errors.length === 0,
+            matched: matched.length,
+            processed: jobIds.length,
+            jobIds,
+            errors,
+          })
+        );
+      } catch (error: any) {
+        const isValidationError =
+          error instanceof JobFilterError || error instanceof SyntaxError;
+
+        apiLog.log(
+          isValidationError ? "warn" : "error",
+          `queue_bulk_${action}_failed`,
+          {
+            error: error.message,
+          }
+        );
+
+        res.writeHead(isValidationError ? 400 : 500, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            error: isValidationError
+              ? error.message
+              : `Failed to bulk ${action}`,
+            message: error.message,
+          })
+        );
+      } finally {
+        await queue.close();
+      }
+      return;
+    }
+
+    // ✅ POST /queue/webhooks/:jobId/retry | /replay - Reprocessar um job
+    const jobActionMatch = path.match(
+      /^\/queue\/webhooks\/([^/]+)\/(retry|replay)$/
+    );
+    if (jobActionMatch && req.method === "POST") {
+      const body = await readRequestBody(req);
+
+      // 🔐 Corpo genérico ({ tenantId }): assinatura presa à rota e ao tempo
+      if (
+        !(await authenticateRequest(req, res, body, "queue_job_action", {
+          requireTimestamp: true,
+        }))
+      ) {
+        return;
+      }
+
+      const jobId = decodeURIComponent(jobActionMatch[1]);
+      const action = jobActionMatch[2] as "retry" | "replay";
+
+      const { Queue } = await import("bullmq");
+      const redis = getRedisSingleton();
+      const queue = new Queue<WebhookJobData>("webhooks", {
+        connection: redis,
+      });
+
+      try {
+        const input = body ? JSON.parse(body) : {};
+        const tenantId = input.tenantId ?? urlObj.searchParams.get("tenantId");
+
+        if (!tenantId) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({ error: "Missing required field: tenantId" })
+          );
+          return;
+        }
+
+        if (input.url !== undefined && !isHttpUrl(input.url)) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({ error: "Invalid url (expected http or https)" })
+          );
+          return;
+        }
+
+        // 🆕 SSRF: a nova URL passa pela mesma validação do enfileiramento
+        const urlBlockReason =
+          input.url !== undefined ? getUrlBlockReason(input.url) : null;
+        if (urlBlockReason) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: `Blocked url: ${urlBlockReason}`,
+              code: SSRF_BLOCKED,
+            })
+          );
+          return;
+        }
+
+        const job = await queue.getJob(jobId);
+
+        if (!job || String(job.data.tenantId) !== String(tenantId)) {
+          res.writeHead(404, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Job not found", jobId }));
+          return;
+        }
+
+        const state = toPublicJobState(await job.getState());
+        const allowedStates =
+          action === "retry" ? ["failed"] : ["completed", "failed"];
+
+        if (!allowedStates.includes(state)) {
+          res.writeHead(409, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: `Job cannot be ${
+                action === "retry" ? "retried" : "replayed"
+              } in state "${state}"`,
+              jobId,
+              state,
+            })
+          );
+          return;
+        }
+
+        let newJobId = jobId;
+
+        if (action === "retry") {
+          // Retry in place: mesmo jobId volta para waiting
+          await job.retry("failed");
+        } else {
+          const replay = buildReplayJob(job, input.url);
+          const replayJob = await queue.add(
+            replay.name,
+            replay.data,
+            replay.opts
+          );
+          newJobId = replayJob.id!;
+        }
+
+        apiLog.info(
+          action === "retry" ? "webhook_job_retried" : "webhook_job_replayed",
+          {
+            job_id: newJobId,
+            original_job_id: jobId,
+            tenant_id: job.data.tenantId,
+            previous_state: state,
+            url_overridden: !!input.url,
+          }
+        );
+
+        res.writeHead(action === "retry" ? 200 : 202, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            success: true,
+            jobId: newJobId,
+            ...(action === "replay" ? { replayOf: jobId } : {}),
+            previousState: state,
+          })
+        );
+      } catch (error: any) {
+        const isValidationError = error instanceof SyntaxError;
+
+        apiLog.error(`queue_job_${action}_failed`, {
+          job_id: jobId,
+          error: error.message,
+        });
+
+        res.writeHead(isValidationError ? 400 : 500, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            error: isValidationError
+              ? "Invalid JSON body"
+              : `Failed to ${action} job`,
+            message: error.message,
+          })
+        );
+      } finally {
+        await queue.close();
+      }
+      return;
+    }
+
+    // ✅ /queue/schedules - Webhooks recorrentes (cron) por tenant
+    const scheduleMatch = path.match(/^\/queue\/schedules(?:\/([^/]+))?$/);
+    if (scheduleMatch && req.method !== "OPTIONS") {
+      const body = await readRequestBody(req);
+
+      if (!(await authenticateRequest(req, res, body, "queue_schedules"))) {
+        return;
+      }
+
+      const scheduleId = scheduleMatch[1]
+        ? decodeURIComponent(scheduleMatch[1])
+        : null;
+      const tenantId = Number(urlObj.searchParams.get("tenantId"));
+      const requiresTenant = req.method === "GET" || req.method === "DELETE";
+
+      if (requiresTenant && !tenantId) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Missing required query parameter: tenantId",
+          })
+        );
+        return;
+      }
+
+      try {
+        let statusCode = 200;
+        let response: any = null;
+
+        if (!scheduleId && req.method === "POST") {
+          response = await createSchedule(JSON.parse(body));
+          statusCode = 201;
+        } else if (!scheduleId && req.method === "GET") {
+          response = { schedules: await listSchedules(tenantId) };
+        } else if (scheduleId && req.method === "GET") {
+          response = await getSchedule(scheduleId, tenantId);
+        } else if (scheduleId && req.method === "PUT") {
+          response = await updateSchedule(scheduleId, JSON.parse(body));
+        } else if (scheduleId && req.method === "DELETE") {
+          const deleted = await deleteSchedule(scheduleId, tenantId);
+          response = deleted ? { success: true, id: scheduleId } : null;
+        } else {
+          res.writeHead(405, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Method not allowed" }));
+          return;
+        }
+
+        if (!response) {
+          res.writeHead(404, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({ error: "Schedule not found", id: scheduleId })
+          );
+          return;
+        }
+
+        if (req.method !== "GET") {
+          apiLog.info(
+            `schedule_${
+              req.method === "POST"
+                ? "created"
+                : req.method === "PUT"
+                ? "updated"
+                : "deleted"
+            }`,
+            {
+              schedule_id: scheduleId || response.id,
+              tenant_id: tenantId || response.tenantId,
+            }
+          );
+        }
+
+        res.writeHead(statusCode, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(response));
+      } catch (error: any) {
+        // 🆕 Política de destinos do tenant (igual a add/batch)
+        if (error instanceof DestinationNotAllowedError) {
+          apiLog.warn("schedule_destination_not_allowed", {
+            method: req.method,
+            schedule_id: scheduleId,
+            error: error.message,
+          });
+
+          res.writeHead(403, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: error.message, code: error.code }));
+          return;
+        }
+
+        const isValidationError =
+          error instanceof ScheduleValidationError ||
+          error instanceof SyntaxError;
+
+        apiLog.log(
+          isValidationError ? "warn" : "error",
+          isValidationError
+            ? "schedule_validation_failed"
+            : "schedule_request_failed",
+          {
+            method: req.method,
+            schedule_id: scheduleId,
+            error: error.message,
+          }
+        );
+
+        res.writeHead(isValidationError ? 400 : 500, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            error: isValidationError
+              ? error.message
+              : "Failed to process schedule request",
+            message: error.message,
+          })
+        );
+      }
+      return;
+    }
+
+    // ✅ /queue/tenants/:tenantId/policy - Hosts de destino permitidos por tenant
+    const tenantPolicyMatch = path.match(/^\/queue\/tenants\/([^/]+)\/policy$/);
+    if (tenantPolicyMatch && req.method !== "OPTIONS") {
+      const body = await readRequestBody(req);
+
+      if (!(await authenticateRequest(req, res, body, "queue_tenant_policy"))) {
+        return;
+      }
+
+      const tenantId = Number(decodeURIComponent(tenantPolicyMatch[1]));
+
+      if (!Number.isInteger(tenantId) || tenantId <= 0) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid tenantId" }));
+        return;
+      }
+
+      try {
+        if (req.method === "GET") {
+          const policy = await getTenantPolicy(tenantId);
+
+          if (!policy) {
+            res.writeHead(404, { "Content-Type": "application/json" });
+            res.end(
+              JSON.stringify({ error: "Tenant policy not found", tenantId })
+            );
+            return;
+          }
+
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(policy));
+          return;
+        }
+
+        if (req.method === "PUT") {
+          const policy = await setTenantPolicy(
+            tenantId,
+            body ? JSON.parse(body) : {}
+          );
+
+          apiLog.info("tenant_policy_updated", {
+            tenant_id: tenantId,
+            allowed_hosts: policy.allowedHosts.length,
+          });
+
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(policy));
+          return;
+        }
+
+        if (req.method === "DELETE") {
+          const deleted = await deleteTenantPolicy(tenantId);
+
+          if (!deleted) {
+            res.writeHead(404, { "Content-Type": "application/json" });
+            res.end(
+              JSON.stringify({ error: "Tenant policy not found", tenantId })
+            );
+            return;
+          }
+
+          apiLog.info("tenant_policy_deleted", {
+            tenant_id: tenantId,
+          });
+
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ success: true, tenantId }));
+          return;
+        }
+
+        res.writeHead(405, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Method not allowed" }));
+      } catch (error: any) {
+        const isValidationError =
+          error instanceof TenantPolicyError || error instanceof SyntaxError;
+
+        apiLog.log(
+          isValidationError ? "warn" : "error",
+          isValidationError
+            ? "tenant_policy_validation_failed"
+            : "tenant_policy_request_failed",
+          {
+            method: req.method,
+            tenant_id: tenantId,
+            error: error.message,
+          }
+        );
+
+        res.writeHead(isValidationError ? 400 : 500, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            error: isValidationError
+              ? error.message
+              : "Failed to process tenant policy request",
             message: error.message,
           })
         );
@@ -759,14 +2135,26 @@ function createHealthServer(port: number = 3002) {
         const { Queue } = await import("bullmq");
         const redis = getRedisSingleton();
         const queue = new Queue("webhooks", { connection: redis });
-        const counts = await queue.getJobCounts(
+        const { prioritized, ...counts } = await queue.getJobCounts(
           "waiting",
+          "prioritized",
           "active",
           "completed",
           "failed"
         );
         await queue.close();
 
+        // Jobs priorizados também estão aguardando processamento
+        counts.waiting += prioritized;
+
+        // 🆕 Fila de callbacks (entrega durável) + dead-letter
+        const callbackCounts = await getCallbackQueue()
+          .getQueue()
+          .getJobCounts("waiting", "active", "delayed", "completed", "failed");
+        const deadCallbacks = await getDeadLetterQueue(CALLBACK_QUEUE_NAME)
+          .getQueue()
+          .getWaitingCount();
+
         // Calcular taxa de sucesso
         const totalJobs = metrics.jobs.processed + metrics.jobs.failed;
         const successRate =
@@ -849,6 +2237,14 @@ function createHealthServer(port: number = 3002) {
             status: counts.waiting > 50 ? "⚠️ Backlog building" : "✅ Healthy",
           },
 
+          // 🆕 Entrega de callbacks
+          callbacks: {
+            ...callbackCounts,
+            dead: deadCallbacks,
+            status:
+              deadCallbacks > 0 ? "⚠️ Dead-lettered callbacks" : "✅ Healthy",
+          },
+
           // 🔧 Métricas do Redis
           redis: {
             totalCommands: redisMetrics.totalCommands,
@@ -883,15 +2279,9 @@ function createHealthServer(port: number = 3002) {
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify(response, null, 2));
       } catch (error: any) {
-        console.error(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "error",
-            service: "api",
-            event: "metrics_failed",
-            error: error.message,
-          })
-        );
+        apiLog.error("metrics_failed", {
+          error: error.message,
+        });
 
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(
@@ -934,16 +2324,10 @@ function createHealthServer(port: number = 3002) {
   });
 
   server.listen(port, () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "health-server",
-        event: "server_listening",
-        port,
-        endpoints: ["/health", "/ready", "/live", "/redis"],
-      })
-    );
+    healthServerLog.info("server_listening", {
+      port,
+      endpoints: ["/health", "/ready", "/live", "/redis"],
+    });
   });
 
   return server;
@@ -955,27 +2339,15 @@ function createHealthServer(port: number = 3002) {
 
 async function gracefulShutdown(signal: string) {
   if (isShuttingDown) {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "main",
-        event: "shutdown_already_in_progress",
-        signal,
-      })
-    );
+    mainLog.warn("shutdown_already_in_progress", {
+      signal,
+    });
 
     // Force exit após 10s se já está fazendo shutdown
     setTimeout(() => {
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "main",
-          event: "force_exit",
-          reason: "shutdown_timeout",
-        })
-      );
+      mainLog.error("force_exit", {
+        reason: "shutdown_timeout",
+      });
       process.exit(1);
     }, 10000);
     return;
@@ -983,108 +2355,52 @@ async function gracefulShutdown(signal: string) {
 
   isShuttingDown = true;
 
-  console.log(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "info",
-      service: "main",
-      event: "graceful_shutdown_started",
-      signal,
-      uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
-    })
-  );
+  mainLog.info("graceful_shutdown_started", {
+    signal,
+    uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
+  });
 
   // Timeout global para shutdown (30s máximo)
   const shutdownTimeout = setTimeout(() => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "main",
-        event: "shutdown_timeout",
-        timeout_seconds: 30,
-      })
-    );
+    mainLog.error("shutdown_timeout", {
+      timeout_seconds: 30,
+    });
     process.exit(1);
   }, 30000);
 
   try {
     // 1. Parar de aceitar novos health checks como "healthy"
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "health_checks_degraded",
-      })
-    );
+    mainLog.info("health_checks_degraded");
 
     // 2. Parar workers (aguardar jobs completarem)
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "stopping_workers",
-      })
-    );
+    mainLog.info("stopping_workers");
 
     await stopWebhookWorker();
+    // Callbacks depois: o WebhookWorker ainda pode enfileirar ao terminar jobs
+    await stopCallbackWorker();
+    await closeCallbackQueue();
+    await closeDeadLetterQueues();
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "workers_stopped",
-      })
-    );
+    mainLog.info("workers_stopped");
 
     // 3. Fechar conexões Redis (singleton compartilhada)
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "closing_redis_connections",
-      })
-    );
+    mainLog.info("closing_redis_connections");
 
     // ✅ Fechar singleton Redis
     const redis = getRedisSingleton();
     await redis.quit().catch((err) => {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "main",
-          event: "redis_close_error",
-          error: err.message,
-        })
-      );
+      mainLog.error("redis_close_error", {
+        error: err.message,
+      });
     });
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "redis_connections_closed",
-      })
-    );
+    mainLog.info("redis_connections_closed");
 
     // 4. Fechar health server
     if (healthServer) {
       await new Promise<void>((resolve) => {
         healthServer!.close(() => {
-          console.log(
-            JSON.stringify({
-              timestamp: new Date().toISOString(),
-              level: "info",
-              service: "main",
-              event: "health_server_closed",
-            })
-          );
+          mainLog.info("health_server_closed");
           resolve();
         });
       });
@@ -1092,29 +2408,17 @@ async function gracefulShutdown(signal: string) {
 
     clearTimeout(shutdownTimeout);
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "graceful_shutdown_completed",
-        total_uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
-      })
-    );
+    mainLog.info("graceful_shutdown_completed", {
+      total_uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
+    });
 
     process.exit(0);
   } catch (error) {
     clearTimeout(shutdownTimeout);
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "main",
-        event: "shutdown_error",
-        error: error instanceof Error ? error.message : String(error),
-      })
-    );
+    mainLog.error("shutdown_error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
 
     process.exit(1);
   }
@@ -1125,18 +2429,12 @@ async function gracefulShutdown(signal: string) {
 // ============================================================================
 
 async function main() {
-  console.log(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "info",
-      service: "main",
-      event: "worker_process_starting",
-      node_version: process.version,
-      platform: process.platform,
-      environment: process.env.NODE_ENV || "production",
-      pid: process.pid,
-    })
-  );
+  mainLog.info("worker_process_starting", {
+    node_version: process.version,
+    platform: process.platform,
+    environment: process.env.NODE_ENV || "production",
+    pid: process.pid,
+  });
 
   try {
     // 1. Verificar variáveis de ambiente obrigatórias
@@ -1165,30 +2463,17 @@ async function main() {
       }
     }
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "environment_validated",
-        redis_source: hasTcpRedis ? "tcp_url" : "rest_derived",
-        app_url:
-          process.env.APP_URL ||
-          process.env.NEXT_PUBLIC_APP_URL ||
-          "not_configured",
-        queue_worker_secret_set: !!process.env.QUEUE_WORKER_SECRET,
-      })
-    );
+    mainLog.info("environment_validated", {
+      redis_source: hasTcpRedis ? "tcp_url" : "rest_derived",
+      app_url:
+        process.env.APP_URL ||
+        process.env.NEXT_PUBLIC_APP_URL ||
+        "not_configured",
+      queue_worker_secret_set: !!process.env.QUEUE_WORKER_SECRET,
+    });
 
     // 2. Testar conectividade com Redis (PING)
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "testing_redis_connectivity",
-      })
-    );
+    mainLog.info("testing_redis_connectivity");
 
     // ✅ Usar singleton + waitForReady + pingRedisSafe
     const redis = getRedisSingleton();
@@ -1198,37 +2483,19 @@ async function main() {
     await pingRedisSafe(redis, 1500);
     const rttMs = Date.now() - startPing;
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "redis_connectivity_verified",
-        rtt_ms: rttMs,
-      })
-    );
+    mainLog.info("redis_connectivity_verified", {
+      rtt_ms: rttMs,
+    });
 
     // 3. Inicializar workers
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "initializing_workers",
-      })
-    );
+    mainLog.info("initializing_workers");
 
     startWebhookWorker();
+    startCallbackWorker();
     await webhookWorker.waitUntilReady();
+    await callbackWorker.waitUntilReady();
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "workers_ready",
-      })
-    );
+    mainLog.info("workers_ready");
 
     // 4. Iniciar health server
     const port = parseInt(process.env.PORT || "3002", 10);
@@ -1236,89 +2503,53 @@ async function main() {
 
     // 5. ✅ Signal handlers robustos
     process.on("SIGTERM", () => {
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "main",
-          event: "signal_received",
-          signal: "SIGTERM",
-        })
-      );
+      mainLog.info("signal_received", {
+        signal: "SIGTERM",
+      });
       gracefulShutdown("SIGTERM");
     });
 
     process.on("SIGINT", () => {
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "main",
-          event: "signal_received",
-          signal: "SIGINT",
-        })
-      );
+      mainLog.info("signal_received", {
+        signal: "SIGINT",
+      });
       gracefulShutdown("SIGINT");
     });
 
     // 6. ✅ Error handlers robustos
     process.on("uncaughtException", (error) => {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "main",
-          event: "uncaught_exception",
-          error: error.message,
-          stack: error.stack?.split("\n").slice(0, 10).join(" | "),
-        })
-      );
+      mainLog.error("uncaught_exception", {
+        error: error.message,
+        stack: error.stack?.split("\n").slice(0, 10).join(" | "),
+      });
       gracefulShutdown("uncaughtException");
     });
 
     process.on("unhandledRejection", (reason) => {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "main",
-          event: "unhandled_rejection",
-          reason: reason instanceof Error ? reason.message : String(reason),
-          stack:
-            reason instanceof Error
-              ? reason.stack?.split("\n").slice(0, 10).join(" | ")
-              : undefined,
-        })
-      );
+      mainLog.error("unhandled_rejection", {
+        reason: reason instanceof Error ? reason.message : String(reason),
+        stack:
+          reason instanceof Error
+            ? reason.stack?.split("\n").slice(0, 10).join(" | ")
+            : undefined,
+      });
       gracefulShutdown("unhandledRejection");
     });
 
     // 7. Success log
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "main",
-        event: "worker_process_ready",
-        workers: ["webhook"],
-        health_port: port,
-        uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
-      })
-    );
+    mainLog.info("worker_process_ready", {
+      workers: ["webhook"],
+      health_port: port,
+      uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
+    });
   } catch (error) {
-    console.error(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "main",
-        event: "startup_failed",
-        error: error instanceof Error ? error.message : String(error),
-        stack:
-          error instanceof Error
-            ? error.stack?.split("\n").slice(0, 10).join(" | ")
-            : undefined,
-      })
-    );
+    mainLog.error("startup_failed", {
+      error: error instanceof Error ? error.message : String(error),
+      stack:
+        error instanceof Error
+          ? error.stack?.split("\n").slice(0, 10).join(" | ")
+          : undefined,
+    });
     process.exit(1);
   }
 }
@@ -1328,18 +2559,12 @@ async function main() {
 // ============================================================================
 
 main().catch((error) => {
-  console.error(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "error",
-      service: "main",
-      event: "bootstrap_error",
-      error: error instanceof Error ? error.message : String(error),
-      stack:
-        error instanceof Error
-          ? error.stack?.split("\n").slice(0, 10).join(" | ")
-          : undefined,
-    })
-  );
+  mainLog.error("bootstrap_error", {
+    error: error instanceof Error ? error.message : String(error),
+    stack:
+      error instanceof Error
+        ? error.stack?.split("\n").slice(0, 10).join(" | ")
+        : undefined,
+  });
   process.exit(1);
 });
@@ -1,134 +1,219 @@
 // src/lib/callbackSender.ts
 
-import { WorkerCallbackPayload } from "./types";
+import crypto from "crypto";
+import { WorkerCallbackEvent, WorkerCallbackPayload } from "./types";
+import {
+  assertPublicUrl,
+  getSsrfSafeDispatcher,
+  SsrfBlockedError,
+  unwrapSsrfError,
+} from "./ssrf";
+import { createLogger } from "./logger";
+
+const log = createLogger("callback-sender");
+
+/**
+ * Eventos notificados quando o payload não informa callback.events
+ * (comportamento original: só o resultado final)
+ */
+export const DEFAULT_CALLBACK_EVENTS: WorkerCallbackEvent[] = [
+  "success",
+  "failed",
+];
+
+const CALLBACK_EVENTS: WorkerCallbackEvent[] = [
+  "success",
+  "failed",
+  "retrying",
+];
+
+/**
+ * Valida callback.events (lista não vazia de eventos conhecidos)
+ */
+export function isValidCallbackEvents(value: any): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((event) => CALLBACK_EVENTS.includes(event))
+  );
+}
+
+/**
+ * Verifica se o job assinou o evento de callback
+ */
+export function isCallbackEventEnabled(
+  events: WorkerCallbackEvent[] | undefined,
+  event: WorkerCallbackEvent
+): boolean {
+  return (events || DEFAULT_CALLBACK_EVENTS).includes(event);
+}
+
+/**
+ * Modo de autenticação dos callbacks (CALLBACK_AUTH_MODE)
+ * - "hmac" (padrão): X-Worker-Signature + X-Worker-Timestamp, o secret nunca trafega
+ * - "bearer": legado, envia o secret em Authorization: Bearer
+ * - "both": HMAC + Bearer (migração de receptores antigos)
+ */
+export type CallbackAuthMode = "hmac" | "bearer" | "both";
+
+export function getCallbackAuthMode(): CallbackAuthMode {
+  const mode = (process.env.CALLBACK_AUTH_MODE || "hmac").toLowerCase();
+  return mode === "bearer" || mode === "both" ? mode : "hmac";
+}
+
+/**
+ * Assinatura HMAC-SHA256 (hex) de `${timestamp}.${body}`
+ * O timestamp (unix em segundos) entra na assinatura para barrar replay
+ */
+export function signCallback(
+  body: string,
+  secret: string,
+  timestamp: number
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * Headers de autenticação do callback conforme CALLBACK_AUTH_MODE
+ * Assinado a cada tentativa (timestamp sempre atual)
+ */
+function buildAuthHeaders(
+  body: string,
+  secret: string
+): Record<string, string> {
+  const mode = getCallbackAuthMode();
+  const headers: Record<string, string> = {};
+
+  if (mode !== "bearer") {
+    const timestamp = Math.floor(Date.now() / 1000);
+    headers["X-Worker-Timestamp"] = String(timestamp);
+    headers["X-Worker-Signature"] = signCallback(body, secret, timestamp);
+  }
+  if (mode !== "hmac") {
+    headers["Authorization"] = `Bearer ${secret}`; // ⚠️ Compatibilidade
+  }
+
+  return headers;
+}
 
 /**
- * Envia callback para o Next.js (ou outro sistema) com Bearer Token
+ * Envia callback para o Next.js (ou outro sistema) assinado com HMAC
+ * Uma única tentativa: retries e dead-letter ficam com a fila "callbacks"
+ * (ver queue/callbackWorker.ts)
  *
  * @param payload - Dados do resultado do job processado
  * @param callbackUrl - URL completa para onde enviar (vem do payload original)
- * @param secret - QUEUE_WORKER_SECRET para autenticação Bearer
- * @param maxRetries - Número máximo de tentativas (padrão: 3)
+ * @param secret - Secret do job ou QUEUE_WORKER_SECRET (chave do HMAC)
+ * @param attempt - Tentativa atual (apenas para logs)
+ * @throws SsrfBlockedError se a URL apontar para a rede interna
+ * @throws Error em timeout, erro de rede ou resposta não-2xx
  */
 export async function sendCallback(
   payload: WorkerCallbackPayload,
   callbackUrl: string,
   secret: string,
-  maxRetries: number = 3
+  attempt: number = 1
 ): Promise<void> {
   const body = JSON.stringify(payload);
 
-  console.log(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "info",
-      service: "callback-sender",
-      event: "sending_callback",
-      job_id: payload.jobId,
-      tenant_id: payload.tenantId,
-      callback_url: callbackUrl,
-      status: payload.status,
-      attempt: 1,
-      max_retries: maxRetries,
-    })
-  );
+  log.info("sending_callback", {
+    job_id: payload.jobId,
+    tenant_id: payload.tenantId,
+    callback_url: callbackUrl,
+    status: payload.status,
+    auth_mode: getCallbackAuthMode(),
+    attempt,
+  });
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await fetch(callbackUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${secret}`, // ✅ Bearer Token
-        },
-        body,
-        signal: AbortSignal.timeout(10000), // 10s timeout
+  // 🆕 SSRF: callback.url vem do payload → nunca chamar a rede interna
+  try {
+    await assertPublicUrl(callbackUrl);
+  } catch (error: any) {
+    if (error instanceof SsrfBlockedError) {
+      log.error("ssrf_blocked", {
+        code: error.code,
+        job_id: payload.jobId,
+        tenant_id: payload.tenantId,
+        callback_url: callbackUrl,
+        reason: error.reason,
+        attempt,
       });
-
-      if (response.ok) {
-        console.log(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "info",
-            service: "callback-sender",
-            event: "callback_success",
-            job_id: payload.jobId,
-            tenant_id: payload.tenantId,
-            callback_url: callbackUrl,
-            http_status: response.status,
-            attempt,
-          })
-        );
-        return; // ✅ Sucesso, sair
-      }
-
-      // HTTP error (400, 500, etc)
-      const errorText = await response.text().catch(() => "");
-      console.warn(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "warn",
-          service: "callback-sender",
-          event: "callback_http_error",
-          job_id: payload.jobId,
-          tenant_id: payload.tenantId,
-          callback_url: callbackUrl,
-          http_status: response.status,
-          error_response: errorText.substring(0, 200),
-          attempt,
-          max_retries: maxRetries,
-        })
-      );
-    } catch (error: any) {
-      const errorType =
-        error.name === "AbortError" ? "timeout" : "network_error";
-
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "callback-sender",
-          event: errorType,
-          job_id: payload.jobId,
-          tenant_id: payload.tenantId,
-          callback_url: callbackUrl,
-          error: error.message,
-          attempt,
-          max_retries: maxRetries,
-        })
-      );
     }
+    throw error;
+  }
 
-    // Retry com exponential backoff
-    if (attempt < maxRetries) {
-      const delay = Math.pow(2, attempt) * 1000; // 2s, 4s, 8s
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "callback-sender",
-          event: "callback_retry_scheduled",
-          job_id: payload.jobId,
-          callback_url: callbackUrl,
-          retry_in_ms: delay,
-          next_attempt: attempt + 1,
-        })
-      );
-      await new Promise((resolve) => setTimeout(resolve, delay));
+  let response: Response;
+
+  try {
+    response = await fetch(callbackUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...buildAuthHeaders(body, secret), // ✅ HMAC (Bearer só em modo legado)
+      },
+      body,
+      signal: AbortSignal.timeout(10000), // 10s timeout
+      // 🆕 Redirects nunca são seguidos: um 3xx para a rede interna levaria
+      // junto o corpo assinado (307/308) → qualquer 3xx é falha
+      redirect: "manual",
+      // 🆕 IP validado de novo no connect (anti DNS rebinding)
+      dispatcher: getSsrfSafeDispatcher(),
+    });
+  } catch (caught: any) {
+    const error = unwrapSsrfError(caught);
+
+    if (error instanceof SsrfBlockedError) {
+      log.error("ssrf_blocked", {
+        code: error.code,
+        job_id: payload.jobId,
+        tenant_id: payload.tenantId,
+        callback_url: callbackUrl,
+        reason: error.reason,
+        attempt,
+      });
+      throw error;
     }
+
+    const errorType =
+      error.name === "AbortError" || error.name === "TimeoutError"
+        ? "timeout"
+        : "network_error";
+
+    log.error(errorType, {
+      job_id: payload.jobId,
+      tenant_id: payload.tenantId,
+      callback_url: callbackUrl,
+      error: error.message,
+      attempt,
+    });
+    throw error;
   }
 
-  // ❌ Todas as tentativas falharam
-  console.error(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "error",
-      service: "callback-sender",
-      event: "callback_failed_all_retries",
+  if (response.ok) {
+    log.info("callback_success", {
       job_id: payload.jobId,
       tenant_id: payload.tenantId,
       callback_url: callbackUrl,
-      max_retries: maxRetries,
-    })
-  );
+      http_status: response.status,
+      attempt,
+    });
+    return; // ✅ Sucesso
+  }
+
+  // HTTP error (3xx, 400, 500, etc)
+  const errorText = await response.text().catch(() => "");
+  log.warn("callback_http_error", {
+    job_id: payload.jobId,
+    tenant_id: payload.tenantId,
+    callback_url: callbackUrl,
+    http_status: response.status,
+    redirect_location: response.headers.get("location") ?? undefined,
+    error_response: errorText.substring(0, 200),
+    attempt,
+  });
+
+  throw new Error(`Callback HTTP ${response.status}: ${response.statusText}`);
 }
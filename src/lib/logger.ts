@@ -0,0 +1,277 @@
+// src/lib/logger.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { redact } from "./redact";
+
+/**
+ * Níveis em ordem crescente de severidade
+ * LOG_LEVEL define o mínimo emitido (padrão: info → debug fica silenciado)
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Linha de log estruturado (já mascarada quando chega nos sinks)
+ */
+export interface LogEntry {
+  timestamp: string; // ISO 8601
+  level: LogLevel;
+  service: string;
+  event: string;
+  instance_id: string;
+  [field: string]: any;
+}
+
+/**
+ * Destino das linhas de log (stdout, arquivo, coletor externo...)
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+/**
+ * Identifica a réplica que emitiu o log
+ * INSTANCE_ID > RAILWAY_REPLICA_ID > hostname-pid
+ */
+const INSTANCE_ID =
+  process.env.INSTANCE_ID ||
+  process.env.RAILWAY_REPLICA_ID ||
+  `${os.hostname()}-${process.pid}`;
+
+function isLogLevel(value: any): value is LogLevel {
+  return Object.keys(LOG_LEVELS).includes(value);
+}
+
+function getMinLevel(): number {
+  const level = (process.env.LOG_LEVEL || "").toLowerCase();
+  return LOG_LEVELS[isLogLevel(level) ? level : "info"];
+}
+
+// ============================================================================
+// Sinks
+// ============================================================================
+
+/**
+ * Uma linha JSON por evento (produção / Railway)
+ * warn e error vão para stderr, como antes do logger
+ */
+export function createJsonSink(): LogSink {
+  return {
+    write(entry) {
+      const line = JSON.stringify(entry);
+
+      if (entry.level === "error") console.error(line);
+      else if (entry.level === "warn") console.warn(line);
+      else console.log(line);
+    },
+  };
+}
+
+const PRETTY_COLORS: Record<LogLevel, string> = {
+  debug: "\x1b[90m",
+  info: "\x1b[36m",
+  warn: "\x1b[33m",
+  error: "\x1b[31m",
+};
+
+function formatPrettyValue(value: any): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Saída legível para desenvolvimento:
+ * 12:00:01.123 INFO  [webhook-worker] job_started job_id=42 tenant_id=1
+ */
+export function createPrettySink(): LogSink {
+  const useColors = Boolean(process.stdout.isTTY);
+
+  return {
+    write(entry) {
+      const { timestamp, level, service, event, instance_id, ...fields } =
+        entry;
+      const label = level.toUpperCase().padEnd(5);
+      const details = Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${formatPrettyValue(value)}`)
+        .join(" ");
+      const line = `${timestamp.slice(11, 23)} ${
+        useColors ? `${PRETTY_COLORS[level]}${label}\x1b[0m` : label
+      } [${service}] ${event}${details ? ` ${details}` : ""}`;
+
+      if (level === "error") console.error(line);
+      else if (level === "warn") console.warn(line);
+      else console.log(line);
+    },
+  };
+}
+
+export interface RotatingFileSinkOptions {
+  file: string;
+  maxBytes?: number; // Padrão: 10 MB
+  maxFiles?: number; // Arquivos rotacionados mantidos (app.log.1 ... app.log.N)
+}
+
+/**
+ * JSON lines em arquivo, rotacionando por tamanho
+ * Escrita síncrona: nenhuma linha se perde se o processo cair logo depois
+ */
+export function createRotatingFileSink(
+  options: RotatingFileSinkOptions
+): LogSink {
+  const maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+  const maxFiles = options.maxFiles ?? 5;
+
+  fs.mkdirSync(path.dirname(options.file), { recursive: true });
+
+  let size = fs.existsSync(options.file) ? fs.statSync(options.file).size : 0;
+
+  const rotate = () => {
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      const from = `${options.file}.${index}`;
+      if (fs.existsSync(from))
+        fs.renameSync(from, `${options.file}.${index + 1}`);
+    }
+    if (maxFiles > 0) fs.renameSync(options.file, `${options.file}.1`);
+    else fs.unlinkSync(options.file);
+    size = 0;
+  };
+
+  return {
+    write(entry) {
+      const line = `${JSON.stringify(entry)}\n`;
+      const bytes = Buffer.byteLength(line);
+
+      try {
+        if (size > 0 && size + bytes > maxBytes) rotate();
+        fs.appendFileSync(options.file, line);
+        size += bytes;
+      } catch (error: any) {
+        // ⚠️ Falha no arquivo não pode derrubar o worker: avisa no stderr
+        console.error(
+          `[logger] Failed to write ${options.file}: ${error.message}`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Sinks a partir do ambiente:
+ * - LOG_FORMAT: "json" (padrão) ou "pretty"
+ * - LOG_FILE: também grava JSON lines no arquivo (LOG_FILE_MAX_BYTES, LOG_FILE_MAX_FILES)
+ */
+function createDefaultSinks(): LogSink[] {
+  const sinks = [
+    process.env.LOG_FORMAT === "pretty" ? createPrettySink() : createJsonSink(),
+  ];
+
+  if (process.env.LOG_FILE) {
+    sinks.push(
+      createRotatingFileSink({
+        file: process.env.LOG_FILE,
+        maxBytes: process.env.LOG_FILE_MAX_BYTES
+          ? parseInt(process.env.LOG_FILE_MAX_BYTES, 10)
+          : undefined,
+        maxFiles: process.env.LOG_FILE_MAX_FILES
+          ? parseInt(process.env.LOG_FILE_MAX_FILES, 10)
+          : undefined,
+      })
+    );
+  }
+
+  return sinks;
+}
+
+// Criados no primeiro log (permite trocar via setLogSinks antes disso)
+let sinks: LogSink[] | null = null;
+
+/**
+ * Substitui os sinks de todos os loggers (ex: coletor externo, testes)
+ */
+export function setLogSinks(newSinks: LogSink[]): void {
+  sinks = newSinks;
+}
+
+/**
+ * Acrescenta um sink aos atuais
+ */
+export function addLogSink(sink: LogSink): void {
+  sinks = [...(sinks ?? createDefaultSinks()), sink];
+}
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+/**
+ * Logger estruturado com campos fixos (service, queue, job_id, tenant_id...)
+ * Toda linha passa por redact() antes de chegar aos sinks
+ */
+export class Logger {
+  constructor(
+    private readonly service: string,
+    private readonly bindings: Record<string, any> = {}
+  ) {}
+
+  /**
+   * Logger com campos adicionais fixos, ex: job_id e tenant_id do job atual
+   */
+  child(bindings: Record<string, any>): Logger {
+    return new Logger(this.service, { ...this.bindings, ...bindings });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= getMinLevel();
+  }
+
+  log(level: LogLevel, event: string, fields: Record<string, any> = {}): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const entry = redact({
+      timestamp: new Date().toISOString(),
+      level,
+      service: this.service,
+      event,
+      ...this.bindings,
+      ...fields,
+      instance_id: INSTANCE_ID,
+    });
+
+    for (const sink of (sinks ??= createDefaultSinks())) {
+      sink.write(entry);
+    }
+  }
+
+  debug(event: string, fields?: Record<string, any>): void {
+    this.log("debug", event, fields);
+  }
+
+  info(event: string, fields?: Record<string, any>): void {
+    this.log("info", event, fields);
+  }
+
+  warn(event: string, fields?: Record<string, any>): void {
+    this.log("warn", event, fields);
+  }
+
+  error(event: string, fields?: Record<string, any>): void {
+    this.log("error", event, fields);
+  }
+}
+
+/**
+ * Logger de um componente (o nome vira o campo `service`)
+ */
+export function createLogger(
+  service: string,
+  bindings?: Record<string, any>
+): Logger {
+  return new Logger(service, bindings);
+}
@@ -1,6 +1,7 @@
 // src/lib/queue/BaseQueue.ts
 import { Queue, QueueOptions, JobsOptions } from "bullmq";
 import { getRedisSingleton } from "./connection";
+import { createLogger, Logger } from "../logger";
 
 /**
  * Interface base para dados de job
@@ -43,20 +44,14 @@ export const DEFAULT_QUEUE_OPTIONS: Partial<QueueOptions> = {
 export abstract class BaseQueue<T extends BaseJobData> {
   protected queue: Queue<T, any, string>;
   protected queueName: string;
+  protected log: Logger;
 
   constructor(queueName: string, options?: Partial<QueueOptions>) {
     this.queueName = queueName;
+    this.log = createLogger("queue", { queue: queueName });
 
     // Log de inicialização estruturado
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "queue",
-        event: "initializing",
-        queue: queueName,
-      })
-    );
+    this.log.info("initializing");
 
     this.queue = new Queue<T, any, string>(queueName, {
       ...DEFAULT_QUEUE_OPTIONS,
@@ -66,15 +61,7 @@ export abstract class BaseQueue<T extends BaseJobData> {
 
     this.setupEventListeners();
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "queue",
-        event: "initialized",
-        queue: queueName,
-      })
-    );
+    this.log.info("initialized");
   }
 
   async addJob(
@@ -98,21 +85,14 @@ export abstract class BaseQueue<T extends BaseJobData> {
     });
 
     // Log estruturado de job enfileirado
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "queue",
-        event: "job_added",
-        queue: this.queueName,
-        job_id: job.id,
-        job_name: jobName,
-        tenant_id: data.tenantId,
-        attempts: options?.attempts || 5,
-        delay: options?.delay || 0,
-        priority: options?.priority || 0,
-      })
-    );
+    this.log.info("job_added", {
+      job_id: job.id,
+      job_name: jobName,
+      tenant_id: data.tenantId,
+      attempts: options?.attempts || 5,
+      delay: options?.delay || 0,
+      priority: options?.priority || 0,
+    });
 
     return job.id;
   }
@@ -138,29 +118,15 @@ export abstract class BaseQueue<T extends BaseJobData> {
       const stats = { waiting, active, completed, failed, delayed, paused };
 
       // Log de estatísticas estruturado
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "queue",
-          event: "stats_collected",
-          queue: this.queueName,
-          stats,
-        })
-      );
+      this.log.info("stats_collected", {
+        stats,
+      });
 
       return stats;
     } catch (error: any) {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "queue",
-          event: "stats_error",
-          queue: this.queueName,
-          error: error.message,
-        })
-      );
+      this.log.error("stats_error", {
+        error: error.message,
+      });
       throw error;
     }
   }
@@ -173,84 +139,40 @@ export abstract class BaseQueue<T extends BaseJobData> {
       const cleaned = await this.queue.clean(maxAge, 1000, "completed");
       const failedCleaned = await this.queue.clean(maxAge * 7, 1000, "failed"); // Jobs falhados por mais tempo
 
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "queue",
-          event: "cleanup_completed",
-          queue: this.queueName,
-          completed_cleaned: cleaned.length,
-          failed_cleaned: failedCleaned.length,
-          max_age_ms: maxAge,
-        })
-      );
+      this.log.info("cleanup_completed", {
+        completed_cleaned: cleaned.length,
+        failed_cleaned: failedCleaned.length,
+        max_age_ms: maxAge,
+      });
     } catch (error: any) {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "queue",
-          event: "cleanup_error",
-          queue: this.queueName,
-          error: error.message,
-        })
-      );
+      this.log.error("cleanup_error", {
+        error: error.message,
+      });
     }
   }
 
   private setupEventListeners() {
     this.queue.on("error", (err: any) => {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "queue",
-          event: "queue_error",
-          queue: this.queueName,
-          error: err.message,
-          error_name: err.name,
-        })
-      );
+      this.log.error("queue_error", {
+        error: err.message,
+        error_name: err.name,
+      });
     });
 
     this.queue.on("waiting", (job) => {
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "debug",
-          service: "queue",
-          event: "job_waiting",
-          queue: this.queueName,
-          job_id: job.id,
-          tenant_id: job.data?.tenantId,
-        })
-      );
+      this.log.debug("job_waiting", {
+        job_id: job.id,
+        tenant_id: job.data?.tenantId,
+      });
     });
   }
 
   async close() {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "queue",
-        event: "closing",
-        queue: this.queueName,
-      })
-    );
+    this.log.info("closing");
 
     await this.queue.close();
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "queue",
-        event: "closed",
-        queue: this.queueName,
-      })
-    );
+    this.log.info("closed");
   }
 
   /**
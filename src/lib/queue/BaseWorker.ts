@@ -6,7 +6,10 @@ import {
   waitForReady,
 } from "./connection";
 import { BaseJobData } from "./BaseQueue";
+import { getSafeLockDuration } from "./deliveryTimeout";
+import { webhookBackoffStrategy } from "./backoff";
 import IORedis from "ioredis";
+import { createLogger, Logger } from "../logger";
 
 /**
  * Configuração padrão robusta para todos os workers
@@ -18,10 +21,14 @@ export const DEFAULT_WORKER_OPTIONS: Partial<WorkerOptions> = {
     max: 50,
     duration: 1000,
   },
-  lockDuration: 60000, // 60s - tempo máximo para um job ser processado
+  lockDuration: getSafeLockDuration(), // Sempre acima do maior timeout de entrega
   stalledInterval: 30000, // 30s - intervalo para detectar jobs travados
   maxStalledCount: 2, // Máximo de jobs travados antes de falhar
   lockRenewTime: 15000, // 15s - renovar lock a cada 15s
+  settings: {
+    // 🆕 Backoff customizado (respeita Retry-After do destino)
+    backoffStrategy: webhookBackoffStrategy,
+  },
 };
 
 /**
@@ -31,51 +38,38 @@ export const DEFAULT_WORKER_OPTIONS: Partial<WorkerOptions> = {
 export abstract class BaseWorker<T extends BaseJobData> {
   protected worker: Worker<T>;
   protected workerName: string;
+  protected log: Logger;
   private isRunning: boolean = false;
   private normalClient: IORedis;
   private blockingClient: IORedis;
 
   constructor(queueName: string, options?: Partial<WorkerOptions>) {
     this.workerName = queueName;
+    this.log = createLogger("worker", { queue: queueName });
 
     // ✅ Usar singleton para operações normais + blocking client dedicado
     this.normalClient = getRedisSingleton();
     this.blockingClient = createBlockingRedisClient();
 
     // Log de inicialização estruturado
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "worker",
-        event: "initializing",
-        queue: queueName,
-        options: {
-          concurrency:
-            options?.concurrency || DEFAULT_WORKER_OPTIONS.concurrency,
-          lockDuration:
-            options?.lockDuration || DEFAULT_WORKER_OPTIONS.lockDuration,
-          limiter: options?.limiter || DEFAULT_WORKER_OPTIONS.limiter,
-        },
-        redis_clients: {
-          normal_client: "singleton",
-          blocking_client: "dedicated_with_commandTimeout_0_lazy_connect",
-        },
-      })
-    );
+    this.log.info("initializing", {
+      options: {
+        concurrency: options?.concurrency || DEFAULT_WORKER_OPTIONS.concurrency,
+        lockDuration:
+          options?.lockDuration || DEFAULT_WORKER_OPTIONS.lockDuration,
+        limiter: options?.limiter || DEFAULT_WORKER_OPTIONS.limiter,
+      },
+      redis_clients: {
+        normal_client: "singleton",
+        blocking_client: "dedicated_with_commandTimeout_0_lazy_connect",
+      },
+    });
 
     // ✅ Opcional: Aguardar ready explícito antes de processar
     waitForReady(this.normalClient).catch((err) => {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "worker",
-          event: "normal_client_ready_failed",
-          queue: queueName,
-          error: err.message,
-        })
-      );
+      this.log.error("normal_client_ready_failed", {
+        error: err.message,
+      });
     });
 
     // Não aguardamos explicitamente o blocking client.
@@ -94,29 +88,14 @@ export abstract class BaseWorker<T extends BaseJobData> {
       }
     );
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "worker",
-        event: "blocking_connection_configured",
-        queue: queueName,
-        method: "worker_options",
-      })
-    );
+    this.log.info("blocking_connection_configured", {
+      method: "worker_options",
+    });
 
     this.setupEventListeners();
     this.isRunning = true;
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "worker",
-        event: "started",
-        queue: this.workerName,
-      })
-    );
+    this.log.info("started");
   }
 
   /**
@@ -131,21 +110,13 @@ export abstract class BaseWorker<T extends BaseJobData> {
     const startTime = Date.now();
     const { tenantId } = job.data;
     const jobId = job.id || "unknown";
+    const jobLog = this.log.child({ job_id: jobId, tenant_id: tenantId });
 
     // Log de início estruturado
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "worker",
-        event: "job_started",
-        queue: this.workerName,
-        job_id: jobId,
-        tenant_id: tenantId,
-        attempt: job.attemptsMade + 1,
-        max_attempts: job.opts.attempts || 3,
-      })
-    );
+    jobLog.info("job_started", {
+      attempt: job.attemptsMade + 1,
+      max_attempts: job.opts.attempts || 3,
+    });
 
     try {
       if (!tenantId) {
@@ -156,45 +127,45 @@ export abstract class BaseWorker<T extends BaseJobData> {
       const duration = Date.now() - startTime;
 
       // Log de sucesso estruturado
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "worker",
-          event: "job_completed",
-          queue: this.workerName,
-          job_id: jobId,
-          tenant_id: tenantId,
-          duration_ms: duration,
-          attempt: job.attemptsMade + 1,
-        })
-      );
+      jobLog.info("job_completed", {
+        duration_ms: duration,
+        attempt: job.attemptsMade + 1,
+      });
 
       return result;
     } catch (error: any) {
       const duration = Date.now() - startTime;
 
       // Log de erro estruturado
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "worker",
-          event: "job_failed",
-          queue: this.workerName,
-          job_id: jobId,
-          tenant_id: tenantId,
-          duration_ms: duration,
-          attempt: job.attemptsMade + 1,
-          error: error.message,
-          error_stack: error.stack?.split("\n").slice(0, 5).join(" | "),
-        })
-      );
+      jobLog.error("job_failed", {
+        duration_ms: duration,
+        attempt: job.attemptsMade + 1,
+        error: error.message,
+        error_stack: error.stack?.split("\n").slice(0, 5).join(" | "),
+      });
 
       throw error;
     }
   }
 
+  /**
+   * 🆕 Hook chamado quando um job falha definitivamente
+   * Subclasses sobrescrevem para mover o job para uma dead-letter queue
+   */
+  protected async onJobDead(_job: Job<T>, _error: Error): Promise<void> {}
+
+  private async handleDeadJob(job: Job<T>, error: Error): Promise<void> {
+    try {
+      await this.onJobDead(job, error);
+    } catch (hookError: any) {
+      this.log.error("dead_letter_failed", {
+        job_id: job.id,
+        tenant_id: job.data.tenantId,
+        error: hookError.message,
+      });
+    }
+  }
+
   /**
    * Event listeners com logs estruturados
    */
@@ -218,20 +189,13 @@ export abstract class BaseWorker<T extends BaseJobData> {
         // Silencioso se index não estiver disponível
       }
 
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "worker",
-          event: "job_success",
-          queue: this.workerName,
-          job_id: job.id,
-          tenant_id: job.data.tenantId,
-          attempt: job.attemptsMade + 1,
-          total_attempts: job.opts.attempts || 3,
-          duration_ms: duration,
-        })
-      );
+      this.log.info("job_success", {
+        job_id: job.id,
+        tenant_id: job.data.tenantId,
+        attempt: job.attemptsMade + 1,
+        total_attempts: job.opts.attempts || 3,
+        duration_ms: duration,
+      });
     });
 
     this.worker.on("failed", (job, err) => {
@@ -249,81 +213,52 @@ export abstract class BaseWorker<T extends BaseJobData> {
       if (!job) return;
 
       const attemptMsg = `${job.attemptsMade + 1}/${job.opts.attempts || 3}`;
-      const willRetry = job.attemptsMade + 1 < (job.opts.attempts || 3);
-
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "worker",
-          event: willRetry ? "job_retry" : "job_dead",
-          queue: this.workerName,
-          job_id: job.id,
-          tenant_id: job.data.tenantId,
-          attempt: job.attemptsMade + 1,
-          max_attempts: job.opts.attempts || 3,
-          will_retry: willRetry,
-          error: err.message,
-          error_name: err.name,
-        })
-      );
+      // ✅ BullMQ só define finishedOn quando o job falhou definitivamente
+      // (tentativas esgotadas, UnrecoverableError ou stalled demais)
+      const willRetry = !job.finishedOn;
+
+      this.log.error(willRetry ? "job_retry" : "job_dead", {
+        job_id: job.id,
+        tenant_id: job.data.tenantId,
+        attempt: job.attemptsMade + 1,
+        max_attempts: job.opts.attempts || 3,
+        will_retry: willRetry,
+        error: err.message,
+        error_name: err.name,
+      });
 
       if (willRetry) {
-        const nextAttempt = job.attemptsMade + 2;
-        const delay = Math.pow(2, job.attemptsMade + 1) * 2000;
-        console.log(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "info",
-            service: "worker",
-            event: "retry_scheduled",
-            queue: this.workerName,
-            job_id: job.id,
-            next_attempt: nextAttempt,
-            delay_ms: delay,
-          })
-        );
+        // ✅ attemptsMade já inclui a tentativa que falhou e job.delay é a
+        // espera realmente aplicada pelo backoff (após moveToFailed)
+        const nextAttempt = job.attemptsMade + 1;
+        const delay = job.delay || 0;
+        this.log.info("retry_scheduled", {
+          job_id: job.id,
+          next_attempt: nextAttempt,
+          delay_ms: delay,
+          next_retry_at: new Date(Date.now() + delay).toISOString(),
+        });
+      } else {
+        this.handleDeadJob(job, err);
       }
     });
 
     this.worker.on("error", (err: any) => {
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "worker",
-          event: "worker_error",
-          queue: this.workerName,
-          error: err.message,
-          error_name: err.name,
-          command: err.command || null,
-        })
-      );
+      this.log.error("worker_error", {
+        error: err.message,
+        error_name: err.name,
+        command: err.command || null,
+      });
     });
 
     this.worker.on("stalled", (jobId) => {
-      console.warn(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "warn",
-          service: "worker",
-          event: "job_stalled",
-          queue: this.workerName,
-          job_id: jobId,
-        })
-      );
+      this.log.warn("job_stalled", {
+        job_id: jobId,
+      });
     });
 
     this.worker.on("drained", () => {
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "worker",
-          event: "queue_drained",
-          queue: this.workerName,
-        })
-      );
+      this.log.info("queue_drained");
     });
   }
 
@@ -333,15 +268,7 @@ export abstract class BaseWorker<T extends BaseJobData> {
    */
   async stop(): Promise<void> {
     if (this.isRunning) {
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "worker",
-          event: "stopping",
-          queue: this.workerName,
-        })
-      );
+      this.log.info("stopping");
 
       // 1. Parar worker primeiro
       await this.worker.close();
@@ -349,39 +276,16 @@ export abstract class BaseWorker<T extends BaseJobData> {
       // 2. Fechar APENAS blocking client (singleton é compartilhado)
       try {
         await this.blockingClient.quit();
-        console.log(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "info",
-            service: "worker",
-            event: "blocking_client_closed",
-            queue: this.workerName,
-          })
-        );
+        this.log.info("blocking_client_closed");
       } catch (error: any) {
-        console.warn(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "warn",
-            service: "worker",
-            event: "blocking_client_close_error",
-            queue: this.workerName,
-            error: error.message,
-          })
-        );
+        this.log.warn("blocking_client_close_error", {
+          error: error.message,
+        });
       }
 
       this.isRunning = false;
 
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "worker",
-          event: "stopped",
-          queue: this.workerName,
-        })
-      );
+      this.log.info("stopped");
     }
   }
 
@@ -0,0 +1,239 @@
+// src/lib/queue/backoff.ts
+import { MinimalJob } from "bullmq";
+import { WebhookBackoffOptions } from "../types";
+
+/**
+ * Tipo de backoff customizado dos jobs de webhook
+ * ⚠️ Tipos nativos ("fixed"/"exponential") não passam pelo backoffStrategy
+ * do worker, então os jobs novos usam este tipo
+ */
+export const WEBHOOK_BACKOFF_TYPE = "webhook";
+
+/**
+ * Delay base padrão (ms) quando o job não informa options.backoff
+ */
+export const DEFAULT_BACKOFF_DELAY_MS = 2000;
+
+/**
+ * Maior espera aceita vinda de Retry-After
+ * WEBHOOK_RETRY_AFTER_MAX_MS (padrão: 1h)
+ */
+export function getMaxRetryAfterMs(): number {
+  return parseInt(process.env.WEBHOOK_RETRY_AFTER_MAX_MS ?? "3600000", 10);
+}
+
+/**
+ * Converte o header Retry-After (segundos ou HTTP-date) em ms
+ * Retorna null quando ausente ou inválido
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+
+  // Data no passado (ex: clock skew) → retentar imediatamente
+  return Math.max(0, date - now);
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60000,
+  h: 3600000,
+  d: 86400000,
+};
+
+/**
+ * Converte "10s", "1m", "1h", "500ms" (ou número em ms) em ms
+ * Retorna null quando inválido
+ */
+export function parseDuration(value: number | string): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  const match = /^(\d+)\s*(ms|s|m|h|d)$/i.exec(String(value).trim());
+  return match
+    ? parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()]
+    : null;
+}
+
+/**
+ * Estratégias nomeadas: recebem a tentativa que falhou (1, 2, ...),
+ * a configuração normalizada e a espera usada no retry anterior
+ */
+type BackoffStrategyFn = (
+  attempt: number,
+  options: WebhookBackoffOptions,
+  previousDelay: number
+) => number;
+
+const BACKOFF_STRATEGIES: Record<
+  WebhookBackoffOptions["type"],
+  BackoffStrategyFn
+> = {
+  fixed: (_attempt, options) => getBaseDelay(options),
+
+  linear: (attempt, options) => getBaseDelay(options) * attempt,
+
+  exponential: (attempt, options, previousDelay) => {
+    const base = getBaseDelay(options);
+    const exponential = base * Math.pow(2, attempt - 1);
+
+    switch (options.jitter) {
+      // Full jitter: aleatório entre 0 e o exponencial
+      case "full":
+        return Math.random() * exponential;
+      // Decorrelated jitter: aleatório entre base e 3x a espera anterior
+      case "decorrelated":
+        return (
+          base + Math.random() * (Math.max(previousDelay, base) * 3 - base)
+        );
+      default:
+        return exponential;
+    }
+  },
+
+  schedule: (attempt, options) => {
+    const delays = options.delays as number[];
+    // Tentativas além da lista repetem o último intervalo
+    return delays[Math.min(attempt, delays.length) - 1];
+  },
+};
+
+function getBaseDelay(options: WebhookBackoffOptions): number {
+  return options.delay ?? DEFAULT_BACKOFF_DELAY_MS;
+}
+
+/**
+ * Valida options.backoff: número (delay base exponencial) ou objeto
+ */
+export function isValidBackoff(value: any): boolean {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0;
+  }
+  if (
+    !value ||
+    typeof value !== "object" ||
+    !Object.keys(BACKOFF_STRATEGIES).includes(value.type)
+  ) {
+    return false;
+  }
+
+  const isPositive = (n: any) =>
+    n === undefined || (typeof n === "number" && Number.isFinite(n) && n > 0);
+
+  if (!isPositive(value.delay) || !isPositive(value.maxDelay)) return false;
+
+  if (
+    value.jitter !== undefined &&
+    !["none", "full", "decorrelated"].includes(value.jitter)
+  ) {
+    return false;
+  }
+
+  if (value.type === "schedule") {
+    return (
+      Array.isArray(value.delays) &&
+      value.delays.length > 0 &&
+      value.delays.every((delay: any) => parseDuration(delay) !== null)
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Normaliza options.backoff para salvar no job (delays do schedule em ms)
+ * Número legado → exponencial com esse delay base
+ */
+export function normalizeBackoff(
+  value: number | WebhookBackoffOptions | undefined
+): WebhookBackoffOptions | undefined {
+  if (value === undefined) return undefined;
+
+  if (typeof value === "number") {
+    return { type: "exponential", delay: value };
+  }
+
+  return value.type === "schedule"
+    ? {
+        ...value,
+        delays: value.delays!.map((delay) => parseDuration(delay)!),
+      }
+    : value;
+}
+
+/**
+ * Espera (ms) antes da próxima tentativa de um job
+ * - Retry-After do destino tem precedência (limitado por WEBHOOK_RETRY_AFTER_MAX_MS)
+ * - Senão, a estratégia de job.data.backoff (padrão: exponencial com opts.backoff.delay)
+ */
+export function computeBackoffDelay(
+  attemptsMade: number,
+  job: MinimalJob,
+  retryAfterMs: number | null = null
+): number {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, getMaxRetryAfterMs());
+  }
+
+  const backoff = job.opts.backoff;
+  const options: WebhookBackoffOptions = job.data?.backoff ?? {
+    type: "exponential",
+    delay: (typeof backoff === "object" ? backoff.delay : backoff) || undefined,
+  };
+
+  // ⚠️ job.delay volta a 0 quando o BullMQ promove o job atrasado: a espera
+  // anterior é persistida pelo worker em job.data.lastBackoffDelayMs
+  const previousDelay =
+    attemptsMade > 1
+      ? job.data?.lastBackoffDelayMs ?? getBaseDelay(options)
+      : getBaseDelay(options);
+  const delay = BACKOFF_STRATEGIES[options.type](
+    attemptsMade,
+    options,
+    previousDelay
+  );
+
+  return Math.round(
+    options.maxDelay !== undefined ? Math.min(delay, options.maxDelay) : delay
+  );
+}
+
+/**
+ * Erro de entrega que carrega a espera calculada pelo worker
+ */
+export interface BackoffAwareError extends Error {
+  backoffDelayMs?: number; // Já calculado (mantém nextRetryAt exato com jitter)
+}
+
+/**
+ * Backoff customizado registrado no BaseWorker (settings.backoffStrategy)
+ * Usa a espera pré-calculada no erro quando existir
+ */
+export function webhookBackoffStrategy(
+  attemptsMade: number,
+  _type?: string,
+  err?: BackoffAwareError,
+  job?: MinimalJob
+): number {
+  if (typeof err?.backoffDelayMs === "number") {
+    return err.backoffDelayMs;
+  }
+  if (!job) {
+    return DEFAULT_BACKOFF_DELAY_MS;
+  }
+
+  return computeBackoffDelay(attemptsMade, job);
+}
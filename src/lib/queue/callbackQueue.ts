@@ -0,0 +1,76 @@
+// src/lib/queue/callbackQueue.ts
+import { BaseJobData, BaseQueue, DEFAULT_QUEUE_OPTIONS } from "./BaseQueue";
+import { WorkerCallbackPayload } from "../types";
+
+/**
+ * Nome da fila de entrega de callbacks
+ */
+export const CALLBACK_QUEUE_NAME = "callbacks";
+
+/**
+ * Job de entrega de um callback
+ * ⚠️ Nunca guardar QUEUE_WORKER_SECRET aqui: o worker resolve o secret
+ * global na hora do envio. Só o secret específico do job (callback.secret)
+ * é persistido, e ele já está nos dados do job de webhook
+ */
+export interface CallbackJobData extends BaseJobData {
+  payload: WorkerCallbackPayload;
+  callbackUrl: string;
+  secret?: string; // callback.secret do payload original (opcional)
+}
+
+/**
+ * Tentativas de entrega de cada callback
+ * CALLBACK_MAX_ATTEMPTS (padrão: 5, com backoff exponencial a partir de 2s)
+ */
+function getCallbackMaxAttempts(): number {
+  return parseInt(process.env.CALLBACK_MAX_ATTEMPTS ?? "5", 10);
+}
+
+class CallbackQueue extends BaseQueue<CallbackJobData> {
+  constructor() {
+    super(CALLBACK_QUEUE_NAME, {
+      defaultJobOptions: {
+        ...DEFAULT_QUEUE_OPTIONS.defaultJobOptions,
+        attempts: getCallbackMaxAttempts(),
+      },
+    });
+  }
+}
+
+// Singleton
+let callbackQueue: CallbackQueue | null = null;
+
+export function getCallbackQueue(): CallbackQueue {
+  if (!callbackQueue) {
+    callbackQueue = new CallbackQueue();
+  }
+  return callbackQueue;
+}
+
+/**
+ * Enfileira um callback para entrega durável (sobrevive a restarts)
+ */
+export async function enqueueCallback(
+  payload: WorkerCallbackPayload,
+  callbackUrl: string,
+  secret?: string
+): Promise<string | undefined> {
+  return getCallbackQueue().addJob(
+    "callback",
+    {
+      tenantId: payload.tenantId,
+      payload,
+      callbackUrl,
+      secret,
+    },
+    { attempts: getCallbackMaxAttempts() }
+  );
+}
+
+export async function closeCallbackQueue(): Promise<void> {
+  if (callbackQueue) {
+    await callbackQueue.close();
+    callbackQueue = null;
+  }
+}
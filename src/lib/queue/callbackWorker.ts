@@ -0,0 +1,90 @@
+// src/lib/queue/callbackWorker.ts
+import { Job, UnrecoverableError } from "bullmq";
+import { BaseWorker } from "./BaseWorker";
+import { CALLBACK_QUEUE_NAME, CallbackJobData } from "./callbackQueue";
+import { getDeadLetterQueue } from "./deadLetterQueue";
+import { sendCallback } from "../callbackSender";
+import { SsrfBlockedError } from "../ssrf";
+import { createLogger } from "../logger";
+
+const log = createLogger("callback-worker");
+
+/**
+ * Worker que entrega os callbacks enfileirados pelo WebhookWorker e pela API
+ * Retries persistentes (BullMQ) e dead-letter em "callbacks-dead"
+ */
+class CallbackWorker extends BaseWorker<CallbackJobData> {
+  constructor() {
+    super(CALLBACK_QUEUE_NAME, {
+      concurrency: parseInt(process.env.CALLBACK_WORKER_CONCURRENCY || "5", 10),
+    });
+  }
+
+  protected async processJob(job: Job<CallbackJobData>): Promise<any> {
+    const { payload, callbackUrl } = job.data;
+    // Secret global resolvido no envio (nunca persistido no job)
+    const secret = job.data.secret || process.env.QUEUE_WORKER_SECRET || "";
+
+    if (!secret) {
+      throw new UnrecoverableError(
+        "No callback secret available (callback.secret or QUEUE_WORKER_SECRET)"
+      );
+    }
+
+    try {
+      await sendCallback(payload, callbackUrl, secret, job.attemptsMade + 1);
+    } catch (error: any) {
+      // URL interna bloqueada: retentar não muda nada → direto para a DLQ
+      if (error instanceof SsrfBlockedError) {
+        throw new UnrecoverableError(error.message);
+      }
+      throw error;
+    }
+
+    return { delivered: true, status: payload.status };
+  }
+
+  /**
+   * 🆕 Tentativas esgotadas → copiar para a DLQ "callbacks-dead"
+   */
+  protected async onJobDead(
+    job: Job<CallbackJobData>,
+    error: Error
+  ): Promise<void> {
+    const deadJobId = await getDeadLetterQueue(CALLBACK_QUEUE_NAME).addDeadJob(
+      job,
+      error
+    );
+
+    log.warn("callback_dead_lettered", {
+      queue: CALLBACK_QUEUE_NAME,
+      job_id: job.id,
+      dead_job_id: deadJobId,
+      webhook_job_id: job.data.payload.jobId,
+      tenant_id: job.data.tenantId,
+      callback_url: job.data.callbackUrl,
+      attempts_made: job.attemptsMade,
+      error: error.message,
+    });
+  }
+}
+
+// Singleton
+export let callbackWorker: CallbackWorker;
+
+export function startCallbackWorker(): CallbackWorker {
+  if (!callbackWorker) {
+    callbackWorker = new CallbackWorker();
+
+    log.info("worker_started");
+  }
+  return callbackWorker;
+}
+
+export async function stopCallbackWorker(): Promise<void> {
+  if (callbackWorker) {
+    await callbackWorker.stop();
+
+    log.info("worker_stopped");
+  }
+}
@@ -1,6 +1,13 @@
 // src/lib/queue/connection.ts
 import { Redis } from "@upstash/redis";
 import IORedis, { RedisOptions as IORedisOptions } from "ioredis";
+import { createLogger } from "../logger";
+
+const redisFactoryLog = createLogger("redis-factory");
+const redisClientLog = createLogger("redis-client");
+const redisBlockingLog = createLogger("redis-blocking");
+const redisSingletonLog = createLogger("redis-singleton");
+const redisConnectionLog = createLogger("redis-connection");
 
 // ============================================================================
 // Singleton e State Global
@@ -226,20 +233,15 @@ export function getRedisBaseOptions(): IORedisOptions {
       const u = new URL(tcpUrl);
       const isTls = u.protocol === "rediss:";
 
-      console.log(
-        `🔧 [Redis Factory] Usando TCP URL: ${u.hostname}:${u.port || 6379}`
-      );
+      redisFactoryLog.debug("using_tcp_url", {
+        host: u.hostname,
+        port: Number(u.port || 6379),
+      });
       if (u.hostname.includes("upstash.io")) {
-        console.warn(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "warn",
-            service: "redis-factory",
-            event: "provider_notice",
-            provider: "upstash",
-            note: "Blocking commands may time out on some serverless providers",
-          })
-        );
+        redisFactoryLog.warn("provider_notice", {
+          provider: "upstash",
+          note: "Blocking commands may time out on some serverless providers",
+        });
       }
 
       const baseOptions: IORedisOptions = {
@@ -280,9 +282,9 @@ export function getRedisBaseOptions(): IORedisOptions {
 
       return baseOptions;
     } catch (e) {
-      console.warn(
-        "⚠️ [Redis Factory] URL TCP inválida, caindo para REST derivado"
-      );
+      redisFactoryLog.warn("invalid_tcp_url", {
+        fallback: "rest_derived",
+      });
     }
   }
 
@@ -297,18 +299,15 @@ export function getRedisBaseOptions(): IORedisOptions {
   }
 
   const hostname = restUrl.replace("https://", "");
-  console.log(`🔧 [Redis Factory] Derivando TCP de REST: ${hostname}:6379`);
+  redisFactoryLog.debug("deriving_tcp_from_rest", {
+    host: hostname,
+    port: 6379,
+  });
   if (hostname.includes("upstash.io")) {
-    console.warn(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-factory",
-        event: "provider_notice",
-        provider: "upstash",
-        note: "Blocking commands may time out on some serverless providers",
-      })
-    );
+    redisFactoryLog.warn("provider_notice", {
+      provider: "upstash",
+      note: "Blocking commands may time out on some serverless providers",
+    });
   }
 
   const baseOptions: IORedisOptions = {
@@ -357,17 +356,11 @@ export function getRedisBaseOptions(): IORedisOptions {
 export function createRedisClient(): IORedis {
   const opts = getRedisBaseOptions();
 
-  console.log(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "info",
-      service: "redis-factory",
-      event: "creating_normal_client",
-      host: opts.host,
-      port: opts.port,
-      enableOfflineQueue: opts.enableOfflineQueue,
-    })
-  );
+  redisFactoryLog.info("creating_normal_client", {
+    host: opts.host,
+    port: opts.port,
+    enableOfflineQueue: opts.enableOfflineQueue,
+  });
 
   const client = new IORedis(opts);
 
@@ -382,76 +375,45 @@ export function createRedisClient(): IORedis {
 
   // 🔧 Eventos com logs ricos
   client.on("connect", () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-client",
-        event: "connected",
-        info: baseClientInfo(opts),
-      })
-    );
+    redisClientLog.info("connected", {
+      info: baseClientInfo(opts),
+    });
   });
 
   client.on("ready", () => {
     const version = (client as any).serverInfo?.redis_version;
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-client",
-        event: "ready",
-        redis_version: version || undefined,
-      })
-    );
+    redisClientLog.info("ready", {
+      redis_version: version || undefined,
+    });
   });
 
   client.on("reconnecting", (delay: number) => {
-    console.warn(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-client",
-        event: "reconnecting",
-        delay_ms: delay,
-      })
-    );
+    redisClientLog.warn("reconnecting", {
+      delay_ms: delay,
+    });
   });
 
   client.on("close", () => {
-    console.warn(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-client",
-        event: "closed",
-      })
-    );
+    redisClientLog.warn("closed");
   });
 
   client.on("error", (err: any) => {
     const { reason, hint } = classifyRedisError(err);
-    console.error(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "redis-client",
-        event: "error",
-        reason,
-        hint,
-        message: err?.message,
-        code: err?.code,
-        errno: err?.errno,
-        syscall: err?.syscall,
-        address: err?.address,
-        port: err?.port,
-        info: baseClientInfo(opts),
-        env: {
-          REDIS_URL: maskPassword(process.env.REDIS_URL),
-          UPSTASH_REDIS_URL: maskPassword(process.env.UPSTASH_REDIS_URL),
-        },
-      })
-    );
+    redisClientLog.error("error", {
+      reason,
+      hint,
+      message: err?.message,
+      code: err?.code,
+      errno: err?.errno,
+      syscall: err?.syscall,
+      address: err?.address,
+      port: err?.port,
+      info: baseClientInfo(opts),
+      env: {
+        REDIS_URL: maskPassword(process.env.REDIS_URL),
+        UPSTASH_REDIS_URL: maskPassword(process.env.UPSTASH_REDIS_URL),
+      },
+    });
   });
 
   return client;
@@ -478,96 +440,57 @@ export function createBlockingRedisClient(): IORedis {
     keepAlive: 60000,
   };
 
-  console.log(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "info",
-      service: "redis-factory",
-      event: "creating_blocking_client",
-      host: blockingOptions.host,
-      port: blockingOptions.port,
-      commandTimeout: blockingOptions.commandTimeout,
-      lazyConnect: blockingOptions.lazyConnect,
-      connectTimeout: blockingOptions.connectTimeout,
-      retryStrategy:
-        blockingOptions.retryStrategy === undefined ? "disabled" : "enabled",
-      reconnectOnError:
-        blockingOptions.reconnectOnError === undefined ? "disabled" : "enabled",
-      enableOfflineQueue: blockingOptions.enableOfflineQueue,
-    })
-  );
+  redisFactoryLog.info("creating_blocking_client", {
+    host: blockingOptions.host,
+    port: blockingOptions.port,
+    commandTimeout: blockingOptions.commandTimeout,
+    lazyConnect: blockingOptions.lazyConnect,
+    connectTimeout: blockingOptions.connectTimeout,
+    retryStrategy:
+      blockingOptions.retryStrategy === undefined ? "disabled" : "enabled",
+    reconnectOnError:
+      blockingOptions.reconnectOnError === undefined ? "disabled" : "enabled",
+    enableOfflineQueue: blockingOptions.enableOfflineQueue,
+  });
 
   const client = new IORedis(blockingOptions);
 
   // Event listeners estruturados
   client.on("connect", () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-blocking",
-        event: "connected",
-      })
-    );
+    redisBlockingLog.info("connected");
   });
 
   client.on("ready", () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-blocking",
-        event: "ready",
-      })
-    );
+    redisBlockingLog.info("ready");
   });
 
   client.on("error", (err: any) => {
     const { reason, hint } = classifyRedisError(err);
-    console.error(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "redis-blocking",
-        event: "error",
-        reason,
-        hint,
-        message: err?.message,
-        code: err?.code,
-        errno: err?.errno,
-        syscall: err?.syscall,
-        address: err?.address,
-        port: err?.port,
-        info: baseClientInfo(blockingOptions),
-        env: {
-          REDIS_URL: maskPassword(process.env.REDIS_URL),
-          UPSTASH_REDIS_URL: maskPassword(process.env.UPSTASH_REDIS_URL),
-        },
-      })
-    );
+    redisBlockingLog.error("error", {
+      reason,
+      hint,
+      message: err?.message,
+      code: err?.code,
+      errno: err?.errno,
+      syscall: err?.syscall,
+      address: err?.address,
+      port: err?.port,
+      info: baseClientInfo(blockingOptions),
+      env: {
+        REDIS_URL: maskPassword(process.env.REDIS_URL),
+        UPSTASH_REDIS_URL: maskPassword(process.env.UPSTASH_REDIS_URL),
+      },
+    });
   });
 
   client.on("reconnecting", (delay: number) => {
-    console.warn(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-blocking",
-        event: "reconnecting",
-        delay_ms: delay,
-      })
-    );
+    redisBlockingLog.warn("reconnecting", {
+      delay_ms: delay,
+    });
   });
 
   client.on("close", () => {
-    console.warn(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-blocking",
-        event: "closed",
-      })
-    );
+    redisBlockingLog.warn("closed");
   });
 
   return client;
@@ -582,14 +505,7 @@ export function getRedisSingleton(): IORedis {
     return singleton;
   }
 
-  console.log(
-    JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: "info",
-      service: "redis-factory",
-      event: "creating_singleton",
-    })
-  );
+  redisFactoryLog.info("creating_singleton");
 
   singleton = new IORedis(getRedisBaseOptions());
 
@@ -604,72 +520,39 @@ export function getRedisSingleton(): IORedis {
 
   // Event listeners estruturados
   singleton.on("connect", () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-singleton",
-        event: "connected",
-      })
-    );
+    redisSingletonLog.info("connected");
   });
 
   singleton.on("ready", () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-singleton",
-        event: "ready",
-      })
-    );
+    redisSingletonLog.info("ready");
   });
 
   singleton.on("error", (err: any) => {
     const { reason, hint } = classifyRedisError(err);
-    console.error(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "redis-singleton",
-        event: "error",
-        reason,
-        hint,
-        message: err?.message,
-        code: err?.code,
-        errno: err?.errno,
-        syscall: err?.syscall,
-        address: err?.address,
-        port: err?.port,
-        env: {
-          REDIS_URL: maskPassword(process.env.REDIS_URL),
-          UPSTASH_REDIS_URL: maskPassword(process.env.UPSTASH_REDIS_URL),
-        },
-      })
-    );
+    redisSingletonLog.error("error", {
+      reason,
+      hint,
+      message: err?.message,
+      code: err?.code,
+      errno: err?.errno,
+      syscall: err?.syscall,
+      address: err?.address,
+      port: err?.port,
+      env: {
+        REDIS_URL: maskPassword(process.env.REDIS_URL),
+        UPSTASH_REDIS_URL: maskPassword(process.env.UPSTASH_REDIS_URL),
+      },
+    });
   });
 
   singleton.on("reconnecting", (delay: number) => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-singleton",
-        event: "reconnecting",
-        delay_ms: delay,
-      })
-    );
+    redisSingletonLog.warn("reconnecting", {
+      delay_ms: delay,
+    });
   });
 
   singleton.on("close", () => {
-    console.warn(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-singleton",
-        event: "closed",
-      })
-    );
+    redisSingletonLog.warn("closed");
   });
 
   return singleton;
@@ -778,7 +661,7 @@ function startRedisLatencyMonitor(
   if (latencyMonitorStarted) return;
   latencyMonitorStarted = true;
 
-  console.log(`🧭 [Redis] Conectado ao Upstash: ${hostname}`);
+  redisConnectionLog.info("latency_monitor_started", { host: hostname });
 
   const probe = async () => {
     try {
@@ -790,13 +673,16 @@ function startRedisLatencyMonitor(
       await rest.ping();
       const restRtt = Date.now() - t2;
 
-      console.log(
-        `📶 [Redis RTT] TCP=${tcpRtt}ms | REST=${restRtt}ms (host=${hostname})`
-      );
+      redisConnectionLog.debug("latency_probe", {
+        host: hostname,
+        tcp_rtt_ms: tcpRtt,
+        rest_rtt_ms: restRtt,
+      });
     } catch (err: any) {
-      console.warn(
-        `⚠️ [Redis RTT] Falha ao medir latência: ${err?.message || err}`
-      );
+      redisConnectionLog.warn("latency_probe_failed", {
+        host: hostname,
+        error: err?.message || String(err),
+      });
     }
   };
 
@@ -819,7 +705,10 @@ function createRedisOptions(): IORedisOptions {
       const u = new URL(tcpUrl);
       const isTls = u.protocol === "rediss:";
 
-      console.log(`🔧 [Redis] Usando TCP URL: ${u.hostname}:${u.port || 6379}`);
+      redisConnectionLog.debug("using_tcp_url", {
+        host: u.hostname,
+        port: Number(u.port || 6379),
+      });
 
       return {
         host: u.hostname,
@@ -849,7 +738,9 @@ function createRedisOptions(): IORedisOptions {
         autoResendUnfulfilledCommands: false,
       };
     } catch (e) {
-      console.warn("⚠️ [Redis] URL TCP inválida, caindo para REST derivado");
+      redisConnectionLog.warn("invalid_tcp_url", {
+        fallback: "rest_derived",
+      });
     }
   }
 
@@ -864,7 +755,10 @@ function createRedisOptions(): IORedisOptions {
   }
 
   const hostname = restUrl.replace("https://", "");
-  console.log(`� [Redis] Derivando TCP de REST: ${hostname}:6379`);
+  redisConnectionLog.debug("deriving_tcp_from_rest", {
+    host: hostname,
+    port: 6379,
+  });
 
   return {
     host: hostname,
@@ -899,79 +793,44 @@ function createRedisOptions(): IORedisOptions {
 function createRedisConnection(): IORedis {
   const options = createRedisOptions();
 
-  console.log("🔄 [Redis] Criando conexão TCP para BullMQ");
-  console.log(
-    `� [Redis] Config: ${JSON.stringify({
-      host: options.host,
-      port: options.port,
-      enableOfflineQueue: options.enableOfflineQueue,
-      maxRetriesPerRequest: options.maxRetriesPerRequest,
-      tls: !!options.tls,
-    })}`
-  );
+  redisConnectionLog.info("creating_connection", {
+    host: options.host,
+    port: options.port,
+    enableOfflineQueue: options.enableOfflineQueue,
+    maxRetriesPerRequest: options.maxRetriesPerRequest,
+    tls: !!options.tls,
+  });
 
   const ioredis = new IORedis(options);
 
   // Event listeners com logs estruturados
   ioredis.on("error", (err: any) => {
-    console.error(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "redis-connection",
-        event: "connection_error",
-        error: err.message,
-        command: err.command || null,
-      })
-    );
+    redisConnectionLog.error("connection_error", {
+      error: err.message,
+      command: err.command || null,
+    });
   });
 
   ioredis.on("connect", () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-connection",
-        event: "connected",
-        host: options.host,
-        port: options.port,
-        tls: !!options.tls,
-      })
-    );
+    redisConnectionLog.info("connected", {
+      host: options.host,
+      port: options.port,
+      tls: !!options.tls,
+    });
   });
 
   ioredis.on("ready", () => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "redis-connection",
-        event: "ready",
-      })
-    );
+    redisConnectionLog.info("ready");
   });
 
   ioredis.on("reconnecting", (delay: number) => {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-connection",
-        event: "reconnecting",
-        delay_ms: delay,
-      })
-    );
+    redisConnectionLog.warn("reconnecting", {
+      delay_ms: delay,
+    });
   });
 
   ioredis.on("close", () => {
-    console.warn(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "warn",
-        service: "redis-connection",
-        event: "connection_closed",
-      })
-    );
+    redisConnectionLog.warn("connection_closed");
   });
 
   // Criar cliente Upstash REST se necessário
@@ -999,9 +858,8 @@ function createRedisConnection(): IORedis {
  */
 export function getRedisConnection(): IORedis {
   if (!redisConnection) {
-    console.log("🎯 [Redis] Criando singleton usando factory...");
     redisConnection = createRedisClient(); // ✅ Usar nova fábrica
-    console.log("✅ [Redis] Singleton criado com factory");
+    redisConnectionLog.debug("singleton_created");
   }
   return redisConnection;
 }
@@ -1062,7 +920,7 @@ export async function pingRedis(): Promise<{ ok: boolean; rtt_ms: number }> {
  */
 export async function closeRedisConnection(): Promise<void> {
   if (redisConnection) {
-    console.log("🔌 [Redis] Fechando conexão...");
+    redisConnectionLog.info("closing");
 
     try {
       // Parar monitor de latência
@@ -1075,9 +933,9 @@ export async function closeRedisConnection(): Promise<void> {
       await redisConnection.quit();
       redisConnection = null;
 
-      console.log("✅ [Redis] Conexão fechada gracefully");
+      redisConnectionLog.info("closed_gracefully");
     } catch (error: any) {
-      console.error("⚠️ [Redis] Erro ao fechar conexão:", error.message);
+      redisConnectionLog.error("close_failed", { error: error.message });
       // Force disconnect em caso de erro
       try {
         if (redisConnection) {
@@ -0,0 +1,212 @@
+// src/lib/queue/deadLetterQueue.ts
+import { Job, JobsOptions, Queue } from "bullmq";
+import { BaseJobData, BaseQueue } from "./BaseQueue";
+import { getRedisSingleton } from "./connection";
+
+/**
+ * Job que esgotou as tentativas, guardado para investigação/requeue
+ */
+export interface DeadLetterJobData extends BaseJobData {
+  sourceQueue: string; // Fila de origem (ex: "webhooks")
+  originalJobId: string;
+  originalJobName: string;
+  originalData: any; // Payload original do job (intacto)
+  originalOpts: Pick<JobsOptions, "attempts" | "backoff" | "priority">;
+  attemptsMade: number;
+  attemptHistory: any[]; // Histórico por tentativa (formato da fila de origem)
+  failedReason: string;
+  stacktrace: string[];
+  deadAt: string; // ISO 8601
+}
+
+/**
+ * Entrada da DLQ exposta pela API (id do job na DLQ + dados)
+ */
+export interface DeadLetterEntry extends DeadLetterJobData {
+  id: string;
+}
+
+/**
+ * Nome da DLQ de uma fila
+ * ⚠️ BullMQ não aceita ":" em nomes de fila → "webhooks-dead"
+ */
+export function getDeadLetterQueueName(sourceQueue: string): string {
+  return `${sourceQueue}-dead`;
+}
+
+/**
+ * Quantos jobs são lidos do Redis por página na listagem
+ */
+const LIST_PAGE_SIZE = 200;
+
+/**
+ * Fila sem worker: os jobs ficam em "waiting" até requeue ou remoção manual
+ */
+export class DeadLetterQueue extends BaseQueue<DeadLetterJobData> {
+  private sourceQueue: string;
+
+  constructor(sourceQueue: string) {
+    super(getDeadLetterQueueName(sourceQueue), {
+      defaultJobOptions: {
+        attempts: 1,
+        // ✅ Retenção independente do removeOnFail da fila de origem
+        removeOnComplete: false,
+        removeOnFail: false,
+      },
+    });
+    this.sourceQueue = sourceQueue;
+  }
+
+  /**
+   * Copia um job que falhou definitivamente para a DLQ
+   */
+  async addDeadJob(
+    job: Job,
+    error: Error,
+    attemptHistory: any[] = []
+  ): Promise<string | undefined> {
+    return this.addJob("dead", {
+      tenantId: job.data.tenantId,
+      sourceQueue: this.sourceQueue,
+      originalJobId: job.id!,
+      originalJobName: job.name,
+      originalData: job.data,
+      originalOpts: {
+        attempts: job.opts.attempts,
+        backoff: job.opts.backoff,
+        priority: job.opts.priority,
+      },
+      attemptsMade: job.attemptsMade,
+      attemptHistory,
+      failedReason: job.failedReason || error.message,
+      stacktrace: job.stacktrace || [],
+      deadAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Lista entradas (mais recentes primeiro), opcionalmente por tenant
+   * Retorna o offset para continuar (null quando acabou)
+   */
+  async listDeadJobs(options: {
+    tenantId?: number;
+    offset?: number;
+    limit: number;
+  }): Promise<{ entries: DeadLetterEntry[]; nextOffset: number | null }> {
+    const entries: DeadLetterEntry[] = [];
+    let offset = options.offset || 0;
+
+    while (entries.length < options.limit) {
+      const page = await this.queue.getJobs(
+        ["waiting"],
+        offset,
+        offset + LIST_PAGE_SIZE - 1
+      );
+
+      if (page.length === 0) {
+        return { entries, nextOffset: null };
+      }
+
+      for (const job of page) {
+        offset++;
+
+        if (
+          job &&
+          (options.tenantId === undefined ||
+            Number(job.data.tenantId) === options.tenantId)
+        ) {
+          entries.push(toEntry(job));
+          if (entries.length >= options.limit) break;
+        }
+      }
+
+      if (page.length < LIST_PAGE_SIZE && entries.length < options.limit) {
+        return { entries, nextOffset: null };
+      }
+    }
+
+    return { entries, nextOffset: offset };
+  }
+
+  /**
+   * Busca uma entrada (null se não existir ou for de outro tenant)
+   */
+  async getDeadJob(
+    id: string,
+    tenantId?: number
+  ): Promise<DeadLetterEntry | null> {
+    const job = await this.queue.getJob(id);
+
+    if (
+      !job ||
+      (tenantId !== undefined && Number(job.data.tenantId) !== tenantId)
+    ) {
+      return null;
+    }
+
+    return toEntry(job);
+  }
+
+  /**
+   * Reenfileira o job original na fila de origem e remove a entrada da DLQ
+   * `transform` permite ajustar o payload (ex: trocar a URL de destino)
+   */
+  async requeue(
+    entry: DeadLetterEntry,
+    transform: (data: any) => any = (data) => data
+  ): Promise<string> {
+    const queue = new Queue(this.sourceQueue, {
+      connection: getRedisSingleton(),
+    });
+
+    try {
+      const job = await queue.add(
+        entry.originalJobName,
+        {
+          ...transform(entry.originalData),
+          timestamp: new Date().toISOString(),
+        },
+        entry.originalOpts
+      );
+
+      await this.removeDeadJob(entry.id);
+      return job.id!;
+    } finally {
+      await queue.close();
+    }
+  }
+
+  /**
+   * Remove definitivamente uma entrada da DLQ
+   */
+  async removeDeadJob(id: string): Promise<void> {
+    await this.queue.remove(id);
+  }
+}
+
+function toEntry(job: Job<DeadLetterJobData>): DeadLetterEntry {
+  return { id: job.id!, ...job.data };
+}
+
+// Singletons por fila de origem
+const deadLetterQueues = new Map<string, DeadLetterQueue>();
+
+export function getDeadLetterQueue(sourceQueue: string): DeadLetterQueue {
+  let deadLetterQueue = deadLetterQueues.get(sourceQueue);
+
+  if (!deadLetterQueue) {
+    deadLetterQueue = new DeadLetterQueue(sourceQueue);
+    deadLetterQueues.set(sourceQueue, deadLetterQueue);
+  }
+
+  return deadLetterQueue;
+}
+
+export async function closeDeadLetterQueues(): Promise<void> {
+  await Promise.all(
+    [...deadLetterQueues.values()].map((deadLetterQueue) =>
+      deadLetterQueue.close()
+    )
+  );
+  deadLetterQueues.clear();
+}
@@ -0,0 +1,49 @@
+// src/lib/queue/deliveryTimeout.ts
+
+/**
+ * Timeout padrão de cada requisição ao destino (contrato de types.ts)
+ */
+export const DEFAULT_DELIVERY_TIMEOUT_MS = 30000;
+
+/**
+ * Margem entre o maior timeout possível e o lockDuration do worker
+ * Cobre o log legado (saveWebhookLog, até 5s) e o tempo de callback
+ */
+const LOCK_DURATION_MARGIN_MS = 30000;
+
+/**
+ * Limites globais aplicados a destination.timeout
+ * WEBHOOK_TIMEOUT_MIN_MS (padrão 1s) e WEBHOOK_TIMEOUT_MAX_MS (padrão 60s)
+ */
+export function getDeliveryTimeoutBounds(): { min: number; max: number } {
+  const min = parseInt(process.env.WEBHOOK_TIMEOUT_MIN_MS ?? "1000", 10);
+  const max = parseInt(process.env.WEBHOOK_TIMEOUT_MAX_MS ?? "60000", 10);
+
+  return { min, max: Math.max(min, max) };
+}
+
+/**
+ * Timeout efetivo de um job: destination.timeout limitado por min/max
+ */
+export function resolveDeliveryTimeout(requested?: number): number {
+  const { min, max } = getDeliveryTimeoutBounds();
+  const timeout =
+    typeof requested === "number" && requested > 0
+      ? requested
+      : DEFAULT_DELIVERY_TIMEOUT_MS;
+
+  return Math.min(max, Math.max(min, timeout));
+}
+
+/**
+ * lockDuration seguro: sempre acima do maior timeout efetivo possível
+ * Respeita WORKER_LOCK_DURATION quando ele já é suficiente
+ */
+export function getSafeLockDuration(): number {
+  const configured = parseInt(process.env.WORKER_LOCK_DURATION ?? "60000", 10);
+
+  return Math.max(
+    configured,
+    getDeliveryTimeoutBounds().max + LOCK_DURATION_MARGIN_MS
+  );
+}
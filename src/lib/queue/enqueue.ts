@@ -0,0 +1,403 @@
+// src/lib/queue/enqueue.ts
+import { Job, JobsOptions } from "bullmq";
+import { WebhookJobData } from "./webhookWorker";
+import { isValidRetryOn } from "./retryPolicy";
+import { isValidCallbackEvents } from "../callbackSender";
+import {
+  DEFAULT_BACKOFF_DELAY_MS,
+  isValidBackoff,
+  normalizeBackoff,
+  WEBHOOK_BACKOFF_TYPE,
+} from "./backoff";
+import { getSigningSecret, isValidSigning } from "./signing";
+import { validateRequestBody } from "./requestBody";
+import { isValidRedirect, MAX_REDIRECT_HOPS } from "./redirects";
+import { getUrlBlockReason, SSRF_BLOCKED } from "../ssrf";
+
+/**
+ * Mapeamento de options.priority para prioridades numéricas do BullMQ
+ * ⚠️ No BullMQ, número MENOR = prioridade MAIOR (1 é a mais alta)
+ * Todos os jobs recebem prioridade: jobs sem prioridade (0) passariam na
+ * frente de qualquer job priorizado
+ */
+export const JOB_PRIORITIES = {
+  high: 1,
+  normal: 5,
+  low: 10,
+} as const;
+
+export type JobPriorityName = keyof typeof JOB_PRIORITIES;
+
+/**
+ * Maior atraso aceito para options.delay / options.sendAt
+ * SCHEDULE_MAX_DELAY_MS (padrão: 30 dias)
+ */
+function getMaxScheduleDelayMs(): number {
+  return parseInt(process.env.SCHEDULE_MAX_DELAY_MS ?? "2592000000", 10);
+}
+
+/**
+ * Erro de validação de um payload de enfileiramento
+ */
+export interface PayloadValidationError {
+  reason: string; // Mensagem curta para logs
+  response: { error: string; [key: string]: any }; // Corpo da resposta 400
+}
+
+/**
+ * Detecta se o payload usa o formato NOVO (destination/callback)
+ */
+export function isNewFormatPayload(data: any): boolean {
+  return !!data?.destination;
+}
+
+/**
+ * Valida campos obrigatórios (suporta formato antigo E novo)
+ * Retorna null quando o payload é válido
+ */
+export function validateEnqueuePayload(
+  data: any
+): PayloadValidationError | null {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return {
+      reason: "Payload is not an object",
+      response: { error: "Invalid payload: expected a JSON object" },
+    };
+  }
+
+  if (!data.tenantId) {
+    return {
+      reason: "Missing tenantId",
+      response: { error: "Missing required field: tenantId" },
+    };
+  }
+
+  if (isNewFormatPayload(data)) {
+    // Formato NOVO: destination obrigatório
+    if (!data.destination?.url || !data.destination?.method) {
+      return {
+        reason: "New format missing destination.url or destination.method",
+        response: {
+          error: "Missing required fields: destination.url, destination.method",
+        },
+      };
+    }
+  } else {
+    // Formato ANTIGO: url, method, integrationId obrigatórios
+    if (!data.integrationId || !data.url || !data.method) {
+      return {
+        reason: "Old format missing integrationId, url or method",
+        response: {
+          error:
+            "Missing required fields: tenantId, integrationId, url, method",
+          received: Object.keys(data),
+          expected: ["tenantId", "integrationId", "url", "method"],
+        },
+      };
+    }
+  }
+
+  // 🆕 SSRF: destino e callback não podem apontar para a rede interna
+  const urls: Array<[string, any]> = [
+    [
+      isNewFormatPayload(data) ? "destination.url" : "url",
+      getDestinationUrl(data),
+    ],
+    ["callback.url", data.callback?.url],
+  ];
+  for (const [field, url] of urls) {
+    const blockReason = typeof url === "string" ? getUrlBlockReason(url) : null;
+    if (blockReason) {
+      return {
+        reason: `SSRF blocked ${field}: ${blockReason}`,
+        response: {
+          error: `Blocked ${field}: ${blockReason}`,
+          code: SSRF_BLOCKED,
+        },
+      };
+    }
+  }
+
+  const timeout = data.destination?.timeout;
+  if (
+    timeout !== undefined &&
+    (typeof timeout !== "number" || !Number.isFinite(timeout) || timeout <= 0)
+  ) {
+    return {
+      reason: `Invalid destination.timeout: ${timeout}`,
+      response: {
+        error: "Invalid destination.timeout (expected a positive number of ms)",
+      },
+    };
+  }
+
+  const bodyType = data.destination?.bodyType;
+  const bodyError =
+    bodyType !== undefined
+      ? validateRequestBody(bodyType, data.destination.body)
+      : null;
+  if (bodyError) {
+    return {
+      reason: `Invalid destination.bodyType/body: ${bodyType}`,
+      response: { error: bodyError },
+    };
+  }
+
+  const redirect = data.destination?.redirect;
+  if (redirect !== undefined && !isValidRedirect(redirect)) {
+    return {
+      reason: `Invalid destination.redirect: ${JSON.stringify(redirect)}`,
+      response: {
+        error: `Invalid destination.redirect (expected { mode: follow | manual | error, maxHops?: 0-${MAX_REDIRECT_HOPS} })`,
+      },
+    };
+  }
+
+  const signing = data.destination?.signing;
+  if (signing !== undefined && !isValidSigning(signing)) {
+    return {
+      reason: `Invalid destination.signing: ${JSON.stringify(signing)}`,
+      response: {
+        error:
+          "Invalid destination.signing (expected { secretName, algorithm?: sha256 | sha512, payload?: body | timestamp.body, encoding?: hex | base64, header? })",
+      },
+    };
+  }
+  if (signing !== undefined && !getSigningSecret(signing.secretName)) {
+    return {
+      reason: `Unknown signing secret: ${signing.secretName}`,
+      response: {
+        error: `Unknown destination.signing.secretName: ${signing.secretName}`,
+      },
+    };
+  }
+
+  const delay = data.options?.delay;
+  const sendAt = data.options?.sendAt;
+  if (delay !== undefined && sendAt !== undefined) {
+    return {
+      reason: "Both options.delay and options.sendAt provided",
+      response: {
+        error: "Use either options.delay or options.sendAt, not both",
+      },
+    };
+  }
+  if (
+    delay !== undefined &&
+    (typeof delay !== "number" || !Number.isInteger(delay) || delay < 0)
+  ) {
+    return {
+      reason: `Invalid options.delay: ${delay}`,
+      response: {
+        error: "Invalid options.delay (expected a non-negative integer of ms)",
+      },
+    };
+  }
+  if (
+    sendAt !== undefined &&
+    (typeof sendAt !== "string" || Number.isNaN(Date.parse(sendAt)))
+  ) {
+    return {
+      reason: `Invalid options.sendAt: ${sendAt}`,
+      response: {
+        error: "Invalid options.sendAt (expected an ISO 8601 date)",
+      },
+    };
+  }
+  if (resolveScheduleDelay(data) > getMaxScheduleDelayMs()) {
+    return {
+      reason: "Schedule delay exceeds SCHEDULE_MAX_DELAY_MS",
+      response: {
+        error: `Scheduled delivery too far in the future (max ${getMaxScheduleDelayMs()}ms)`,
+      },
+    };
+  }
+
+  const priority = data.options?.priority;
+  if (
+    priority !== undefined &&
+    !Object.keys(JOB_PRIORITIES).includes(priority)
+  ) {
+    return {
+      reason: `Invalid options.priority: ${priority}`,
+      response: {
+        error: "Invalid options.priority (expected: low, normal, high)",
+      },
+    };
+  }
+
+  const callbackEvents = data.callback?.events;
+  if (callbackEvents !== undefined && !isValidCallbackEvents(callbackEvents)) {
+    return {
+      reason: `Invalid callback.events: ${JSON.stringify(callbackEvents)}`,
+      response: {
+        error:
+          "Invalid callback.events (expected a non-empty array of: success, failed, retrying)",
+      },
+    };
+  }
+
+  const backoff = data.options?.backoff;
+  if (backoff !== undefined && !isValidBackoff(backoff)) {
+    return {
+      reason: `Invalid options.backoff: ${JSON.stringify(backoff)}`,
+      response: {
+        error:
+          "Invalid options.backoff (expected a positive number of ms or { type: fixed | linear | exponential | schedule, ... })",
+      },
+    };
+  }
+
+  const retryOn = data.options?.retryOn;
+  if (retryOn !== undefined && !isValidRetryOn(retryOn)) {
+    return {
+      reason: `Invalid options.retryOn: ${JSON.stringify(retryOn)}`,
+      response: {
+        error:
+          'Invalid options.retryOn (expected an array of status codes or classes like "5xx")',
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Payload normalizado salvo no job (suporta AMBOS os formatos)
+ */
+export function buildWebhookJobData(data: any): WebhookJobData {
+  return isNewFormatPayload(data)
+    ? {
+        // Formato NOVO
+        tenantId: data.tenantId,
+        integrationId: data.integrationId,
+        integrationName: data.integrationName,
+        negocioId: data.negocioId,
+        jobType: data.jobType || "webhook",
+        destination: data.destination,
+        callback: data.callback,
+        metadata: data.metadata,
+        retryOn: data.options?.retryOn,
+        backoff: normalizeBackoff(data.options?.backoff),
+        timestamp: new Date().toISOString(),
+      }
+    : {
+        // Formato ANTIGO (compatibilidade retroativa)
+        tenantId: data.tenantId,
+        integrationId: data.integrationId,
+        integrationName: data.integrationName || "Webhook",
+        negocioId: data.negocioId,
+        url: data.url,
+        method: data.method,
+        headers: data.headers || {},
+        body: data.body || {},
+        retryOn: data.options?.retryOn,
+        backoff: normalizeBackoff(data.options?.backoff),
+        timestamp: new Date().toISOString(),
+      };
+}
+
+/**
+ * Atraso em ms a partir de options.delay ou options.sendAt
+ * sendAt no passado (ex: clock skew) resulta em envio imediato
+ */
+export function resolveScheduleDelay(data: any, now: number = Date.now()) {
+  if (typeof data.options?.delay === "number") {
+    return data.options.delay;
+  }
+  if (typeof data.options?.sendAt === "string") {
+    return Math.max(0, Date.parse(data.options.sendAt) - now);
+  }
+  return 0;
+}
+
+/**
+ * Data prevista de execução de um job atrasado (undefined se imediato)
+ */
+export function getScheduledFor(job: {
+  timestamp: number;
+  opts: JobsOptions;
+}): string | undefined {
+  return job.opts.delay
+    ? new Date(job.timestamp + job.opts.delay).toISOString()
+    : undefined;
+}
+
+/**
+ * Opções do BullMQ derivadas de payload.options
+ */
+export function buildJobOptions(data: any): JobsOptions {
+  return {
+    delay: resolveScheduleDelay(data),
+    attempts: data.options?.retries || 5,
+    backoff: {
+      type: WEBHOOK_BACKOFF_TYPE, // Estratégia de data.backoff + Retry-After (ver backoff.ts)
+      delay:
+        typeof data.options?.backoff === "number"
+          ? data.options.backoff
+          : data.options?.backoff?.delay || DEFAULT_BACKOFF_DELAY_MS,
+    },
+    priority:
+      JOB_PRIORITIES[(data.options?.priority as JobPriorityName) || "normal"],
+  };
+}
+
+/**
+ * URL de destino (para logs), independente do formato
+ */
+export function getDestinationUrl(data: any): string | undefined {
+  return isNewFormatPayload(data) ? data.destination.url : data.url;
+}
+
+/**
+ * Verifica se a string é uma URL http(s) absoluta
+ */
+export function isHttpUrl(value: any): boolean {
+  if (typeof value !== "string") return false;
+
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cópia do payload com outra URL de destino (formato antigo ou novo)
+ */
+export function withDestinationUrl(
+  data: WebhookJobData,
+  url?: string
+): WebhookJobData {
+  if (!url) return data;
+
+  return data.destination
+    ? { ...data, destination: { ...data.destination, url } }
+    : { ...data, url };
+}
+
+/**
+ * Cópia nova de um job finalizado (replay), opcionalmente com outra URL
+ * Mantém tentativas, backoff e prioridade do job original
+ */
+export function buildReplayJob(
+  job: Job<WebhookJobData>,
+  overrideUrl?: string
+): { name: string; data: WebhookJobData; opts: JobsOptions } {
+  const { schedulePayload: _schedulePayload, ...data } = job.data;
+
+  return {
+    name: job.name,
+    data: {
+      ...withDestinationUrl(data, overrideUrl),
+      replayOf: job.id,
+      timestamp: new Date().toISOString(),
+    },
+    opts: {
+      attempts: job.opts.attempts,
+      backoff: job.opts.backoff,
+      priority: job.opts.priority,
+    },
+  };
+}
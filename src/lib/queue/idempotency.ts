@@ -0,0 +1,159 @@
+// src/lib/queue/idempotency.ts
+import crypto from "crypto";
+import { getRedisSingleton } from "./connection";
+
+/**
+ * Códigos dos itens de lote (e do 409) quando a chave já foi usada
+ */
+export const IDEMPOTENCY_CONFLICT = "IDEMPOTENCY_CONFLICT";
+export const IDEMPOTENT_REPLAY = "IDEMPOTENT_REPLAY";
+
+/**
+ * Janela (em segundos) em que uma Idempotency-Key é lembrada
+ * Padrão: 24h (mesma retenção de jobs falhados)
+ */
+export function getIdempotencyWindowSeconds(): number {
+  return parseInt(process.env.IDEMPOTENCY_WINDOW_SECONDS ?? "86400", 10);
+}
+
+/**
+ * Valida a Idempotency-Key recebida (header ou options.idempotencyKey)
+ * Retorna a mensagem de erro, ou null quando ausente ou válida
+ * ⚠️ Chaves que não são string quebrariam o sha256 da reserva
+ */
+export function getIdempotencyKeyError(idempotencyKey: unknown): string | null {
+  if (idempotencyKey === undefined) return null;
+
+  if (
+    typeof idempotencyKey !== "string" ||
+    idempotencyKey.length === 0 ||
+    idempotencyKey.length > 255
+  ) {
+    return "Invalid idempotency key (expected 1-255 characters)";
+  }
+  return null;
+}
+
+/**
+ * Registro salvo no Redis para cada chave reservada
+ */
+interface IdempotencyRecord {
+  jobId: string;
+  fingerprint: string;
+  createdAt: string; // ISO 8601
+}
+
+/**
+ * Resultado da reserva de uma chave
+ * - new: primeira vez que a chave é vista → enfileirar com o jobId retornado
+ * - replay: mesma chave e mesmo payload → devolver jobId original
+ * - conflict: mesma chave com payload diferente → rejeitar (409)
+ */
+export type IdempotencyResult =
+  | { status: "new"; jobId: string }
+  | { status: "replay"; jobId: string }
+  | { status: "conflict"; jobId: string };
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * JSON com chaves ordenadas (mesmo payload → mesma string)
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function getRedisKey(tenantId: number, idempotencyKey: string): string {
+  return `idempotency:${tenantId}:${sha256(idempotencyKey)}`;
+}
+
+/**
+ * jobId do BullMQ para uma reserva (escopo por tenant)
+ * O nonce muda a cada reserva: depois que a janela expira, a mesma chave
+ * gera um job novo mesmo que o BullMQ ainda guarde o job anterior
+ * (queue.add com jobId existente é ignorado em silêncio)
+ * ⚠️ BullMQ não aceita ":" em jobIds customizados
+ */
+function createIdempotentJobId(
+  tenantId: number,
+  idempotencyKey: string
+): string {
+  const nonce = crypto.randomBytes(6).toString("hex");
+  return `idem-${tenantId}-${sha256(idempotencyKey).substring(0, 32)}-${nonce}`;
+}
+
+/**
+ * Fingerprint do payload recebido (ignora a própria idempotencyKey)
+ */
+export function getPayloadFingerprint(payload: any): string {
+  const { idempotencyKey: _ignored, ...options } = payload?.options || {};
+  return sha256(stableStringify({ ...payload, options }));
+}
+
+/**
+ * Reserva atomicamente uma Idempotency-Key (SET NX com TTL)
+ */
+export async function reserveIdempotencyKey(
+  tenantId: number,
+  idempotencyKey: string,
+  fingerprint: string
+): Promise<IdempotencyResult> {
+  const redis = getRedisSingleton();
+  const redisKey = getRedisKey(tenantId, idempotencyKey);
+  const jobId = createIdempotentJobId(tenantId, idempotencyKey);
+
+  const record: IdempotencyRecord = {
+    jobId,
+    fingerprint,
+    createdAt: new Date().toISOString(),
+  };
+
+  const reserved = await redis.set(
+    redisKey,
+    JSON.stringify(record),
+    "EX",
+    getIdempotencyWindowSeconds(),
+    "NX"
+  );
+
+  if (reserved === "OK") {
+    return { status: "new", jobId };
+  }
+
+  const existing = await redis.get(redisKey);
+
+  // Chave expirou entre o SET e o GET → tentar reservar novamente
+  if (!existing) {
+    return reserveIdempotencyKey(tenantId, idempotencyKey, fingerprint);
+  }
+
+  const previous = JSON.parse(existing) as IdempotencyRecord;
+
+  return {
+    status: previous.fingerprint === fingerprint ? "replay" : "conflict",
+    jobId: previous.jobId,
+  };
+}
+
+/**
+ * Libera uma chave reservada (ex: falha ao enfileirar o job)
+ */
+export async function releaseIdempotencyKey(
+  tenantId: number,
+  idempotencyKey: string
+): Promise<void> {
+  const redis = getRedisSingleton();
+  await redis.del(getRedisKey(tenantId, idempotencyKey));
+}
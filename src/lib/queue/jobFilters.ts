@@ -0,0 +1,278 @@
+// src/lib/queue/jobFilters.ts
+import { Job, JobType, Queue } from "bullmq";
+import { WebhookJobData } from "./webhookWorker";
+
+/**
+ * Filtros suportados na busca de jobs (escopo sempre por tenant quando informado)
+ */
+export interface WebhookJobFilter {
+  tenantId?: number;
+  integrationId?: number;
+  negocioId?: number;
+  host?: string; // Host do destino (ex: erp.example.com)
+  from?: number; // Epoch ms (inclusive)
+  to?: number; // Epoch ms (inclusive)
+}
+
+/**
+ * Filtro inválido (responder 400)
+ */
+export class JobFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobFilterError";
+  }
+}
+
+/**
+ * Quantos jobs são lidos do Redis por página durante a varredura
+ */
+const SCAN_PAGE_SIZE = 200;
+
+/**
+ * Limite de jobs examinados por busca (evita varrer filas enormes)
+ */
+const MAX_SCANNED_JOBS = 10000;
+
+function parseNumber(value: any, field: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new JobFilterError(`Invalid ${field}: expected a number`);
+  }
+  return parsed;
+}
+
+function parseDate(value: any, field: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) {
+    throw new JobFilterError(`Invalid ${field}: expected an ISO 8601 date`);
+  }
+  return parsed;
+}
+
+/**
+ * Converte query string / corpo JSON em filtro validado
+ */
+export function parseJobFilter(input: Record<string, any>): WebhookJobFilter {
+  return {
+    tenantId: parseNumber(input.tenantId, "tenantId"),
+    integrationId: parseNumber(input.integrationId, "integrationId"),
+    negocioId: parseNumber(input.negocioId, "negocioId"),
+    host: input.host ? String(input.host).toLowerCase() : undefined,
+    from: parseDate(input.from, "from"),
+    to: parseDate(input.to, "to"),
+  };
+}
+
+/**
+ * URL de destino do job, independente do formato (antigo/novo)
+ */
+export function getJobDestinationUrl(data: WebhookJobData): string {
+  return data.destination?.url || data.url || "";
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verifica se um job atende ao filtro
+ * O intervalo de tempo usa finishedOn (jobs finalizados) ou a criação
+ */
+export function matchesJobFilter(
+  job: Job<WebhookJobData>,
+  filter: WebhookJobFilter
+): boolean {
+  const { data } = job;
+  if (!data) return false;
+
+  // Comparação numérica: produtores podem enviar ids como string
+  if (
+    filter.tenantId !== undefined &&
+    Number(data.tenantId) !== filter.tenantId
+  ) {
+    return false;
+  }
+  if (
+    filter.integrationId !== undefined &&
+    Number(data.integrationId) !== filter.integrationId
+  ) {
+    return false;
+  }
+  if (
+    filter.negocioId !== undefined &&
+    Number(data.negocioId) !== filter.negocioId
+  ) {
+    return false;
+  }
+  if (
+    filter.host !== undefined &&
+    getHost(getJobDestinationUrl(data)) !== filter.host
+  ) {
+    return false;
+  }
+
+  const time = job.finishedOn || job.timestamp;
+  if (filter.from !== undefined && time < filter.from) return false;
+  if (filter.to !== undefined && time > filter.to) return false;
+
+  return true;
+}
+
+/**
+ * Estados públicos aceitos em ?state= e os estados internos do BullMQ
+ * ⚠️ Jobs com prioridade aguardam em "prioritized", não em "waiting"
+ */
+const PUBLIC_STATES: Record<string, JobType[]> = {
+  active: ["active"],
+  waiting: ["waiting", "prioritized"],
+  delayed: ["delayed"],
+  failed: ["failed"],
+  completed: ["completed"],
+};
+
+/**
+ * Converte ?state=failed,completed na lista de estados do BullMQ
+ * Sem estado informado → todos, na ordem de PUBLIC_STATES
+ */
+export function parseJobStates(value?: string | null): JobType[] {
+  const requested = value
+    ? value.split(",").map((state) => state.trim().toLowerCase())
+    : Object.keys(PUBLIC_STATES);
+
+  const invalid = requested.filter((state) => !PUBLIC_STATES[state]);
+  if (invalid.length > 0) {
+    throw new JobFilterError(
+      `Invalid state: ${invalid.join(", ")} (expected: ${Object.keys(
+        PUBLIC_STATES
+      ).join(", ")})`
+    );
+  }
+
+  return Object.keys(PUBLIC_STATES)
+    .filter((state) => requested.includes(state))
+    .flatMap((state) => PUBLIC_STATES[state]);
+}
+
+/**
+ * Varre um estado da fila a partir de um offset, retornando até `limit` jobs
+ * que atendem ao filtro e o offset para continuar (null quando acabou)
+ */
+export async function scanJobs(
+  queue: Queue<WebhookJobData>,
+  state: JobType,
+  filter: WebhookJobFilter,
+  options: { offset?: number; limit: number }
+): Promise<{ jobs: Job<WebhookJobData>[]; nextOffset: number | null }> {
+  const jobs: Job<WebhookJobData>[] = [];
+  let offset = options.offset || 0;
+  let scanned = 0;
+
+  while (jobs.length < options.limit && scanned < MAX_SCANNED_JOBS) {
+    const page = await queue.getJobs(
+      [state],
+      offset,
+      offset + SCAN_PAGE_SIZE - 1
+    );
+
+    if (page.length === 0) {
+      return { jobs, nextOffset: null };
+    }
+
+    for (const job of page) {
+      offset++;
+      scanned++;
+
+      // Job pode ter sido removido entre o ZRANGE e o HGETALL
+      if (job && matchesJobFilter(job, filter)) {
+        jobs.push(job);
+        if (jobs.length >= options.limit) break;
+      }
+    }
+
+    if (page.length < SCAN_PAGE_SIZE && jobs.length < options.limit) {
+      return { jobs, nextOffset: null };
+    }
+  }
+
+  return { jobs, nextOffset: offset };
+}
+
+/**
+ * Posição da listagem: índice do estado + offset dentro dele
+ */
+interface ListCursor {
+  state: number;
+  offset: number;
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): ListCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (Number.isInteger(cursor.state) && Number.isInteger(cursor.offset)) {
+      return cursor;
+    }
+  } catch {
+    // Tratado abaixo
+  }
+  throw new JobFilterError("Invalid cursor");
+}
+
+/**
+ * Lista jobs de vários estados com paginação por cursor opaco
+ * O cursor só é válido para os mesmos estados/filtros da página anterior
+ */
+export async function listJobs(
+  queue: Queue<WebhookJobData>,
+  states: JobType[],
+  filter: WebhookJobFilter,
+  options: { cursor?: string | null; limit: number }
+): Promise<{
+  jobs: { job: Job<WebhookJobData>; state: JobType }[];
+  nextCursor: string | null;
+}> {
+  const results: { job: Job<WebhookJobData>; state: JobType }[] = [];
+  let { state: stateIndex, offset } = options.cursor
+    ? decodeCursor(options.cursor)
+    : { state: 0, offset: 0 };
+
+  while (stateIndex < states.length && results.length < options.limit) {
+    const state = states[stateIndex];
+    const { jobs, nextOffset } = await scanJobs(queue, state, filter, {
+      offset,
+      limit: options.limit - results.length,
+    });
+
+    results.push(...jobs.map((job) => ({ job, state })));
+
+    if (nextOffset !== null) {
+      return {
+        jobs: results,
+        nextCursor: encodeCursor({ state: stateIndex, offset: nextOffset }),
+      };
+    }
+
+    stateIndex++;
+    offset = 0;
+  }
+
+  return {
+    jobs: results,
+    nextCursor:
+      stateIndex < states.length
+        ? encodeCursor({ state: stateIndex, offset: 0 })
+        : null,
+  };
+}
@@ -0,0 +1,158 @@
+// src/lib/queue/redirects.ts
+import { WebhookRedirectHop, WebhookRedirectOptions } from "../types";
+
+/**
+ * Saltos seguidos por padrão / máximo aceito em destination.redirect.maxHops
+ */
+export const DEFAULT_MAX_REDIRECT_HOPS = 5;
+export const MAX_REDIRECT_HOPS = 20;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * Headers que não seguem para outra origem (mesma regra do fetch)
+ */
+const CROSS_ORIGIN_STRIPPED_HEADERS = ["authorization", "cookie"];
+
+/**
+ * Redirect recusado pela política do job (não adianta retentar)
+ */
+export class RedirectError extends Error {
+  constructor(
+    readonly code: "REDIRECT_NOT_ALLOWED" | "TOO_MANY_REDIRECTS",
+    message: string
+  ) {
+    super(message);
+    this.name = "RedirectError";
+  }
+}
+
+/**
+ * Valida destination.redirect
+ */
+export function isValidRedirect(value: any): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    ["follow", "manual", "error"].includes(value.mode) &&
+    (value.maxHops === undefined ||
+      (Number.isInteger(value.maxHops) &&
+        value.maxHops >= 0 &&
+        value.maxHops <= MAX_REDIRECT_HOPS))
+  );
+}
+
+export function isRedirectStatus(status: number): boolean {
+  return REDIRECT_STATUSES.includes(status);
+}
+
+/**
+ * Método/corpo do próximo salto (regras do Fetch Standard)
+ * 303 (e 301/302 em POST) viram GET sem corpo; 307/308 preservam tudo
+ */
+function getNextRequest(
+  status: number,
+  init: RequestInit
+): { method: string; dropBody: boolean } {
+  const method = (init.method || "GET").toUpperCase();
+
+  if (
+    (status === 303 && method !== "HEAD") ||
+    ((status === 301 || status === 302) && method === "POST")
+  ) {
+    return { method: "GET", dropBody: true };
+  }
+  return { method, dropBody: false };
+}
+
+function withoutHeaders(
+  headers: Record<string, string>,
+  names: string[]
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !names.includes(name.toLowerCase())
+    )
+  );
+}
+
+/**
+ * fetch com redirects controlados pelo worker (nunca pelo undici)
+ * - follow: segue até maxHops, validando cada novo destino com `validateHop`
+ * - manual: não segue; a resposta 3xx é o resultado da entrega
+ * - error: qualquer 3xx é falha definitiva (REDIRECT_NOT_ALLOWED)
+ *
+ * @param chain - Recebe cada salto (preenchido mesmo quando lança erro)
+ * @throws RedirectError, ou o erro lançado por validateHop
+ */
+export async function fetchWithRedirects(
+  url: string,
+  init: RequestInit & { headers: Record<string, string> },
+  options: WebhookRedirectOptions,
+  validateHop: (url: string) => Promise<void>,
+  chain: WebhookRedirectHop[]
+): Promise<{ response: Response; finalUrl: string }> {
+  const maxHops = options.maxHops ?? DEFAULT_MAX_REDIRECT_HOPS;
+  let currentUrl = url;
+  let currentInit = init;
+
+  for (;;) {
+    const response = await fetch(currentUrl, {
+      ...currentInit,
+      redirect: "manual",
+    });
+    const location = response.headers.get("location");
+
+    if (!isRedirectStatus(response.status) || !location) {
+      return { response, finalUrl: currentUrl };
+    }
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    const next = getNextRequest(response.status, currentInit);
+
+    chain.push({
+      url: currentUrl,
+      statusCode: response.status,
+      location: nextUrl,
+      method: next.method,
+    });
+
+    if (options.mode === "manual") {
+      return { response, finalUrl: currentUrl };
+    }
+
+    // Corpo do 3xx não interessa: liberar a conexão
+    await response.body?.cancel().catch(() => {});
+
+    if (options.mode === "error") {
+      throw new RedirectError(
+        "REDIRECT_NOT_ALLOWED",
+        `Redirect ${response.status} to ${nextUrl} not allowed (destination.redirect.mode = error)`
+      );
+    }
+    if (chain.length > maxHops) {
+      throw new RedirectError(
+        "TOO_MANY_REDIRECTS",
+        `Too many redirects (max ${maxHops})`
+      );
+    }
+
+    await validateHop(nextUrl);
+
+    let headers = currentInit.headers;
+    if (new URL(nextUrl).origin !== new URL(currentUrl).origin) {
+      headers = withoutHeaders(headers, CROSS_ORIGIN_STRIPPED_HEADERS);
+    }
+    if (next.dropBody) {
+      headers = withoutHeaders(headers, ["content-type", "content-length"]);
+    }
+
+    currentInit = {
+      ...currentInit,
+      method: next.method,
+      headers,
+      body: next.dropBody ? undefined : currentInit.body,
+    };
+    currentUrl = nextUrl;
+  }
+}
@@ -0,0 +1,147 @@
+// src/lib/queue/requestBody.ts
+import { WebhookBodyType } from "../types";
+
+/**
+ * Content-Type padrão de cada destination.bodyType
+ * (um Content-Type em destination.headers sempre tem precedência)
+ */
+const DEFAULT_CONTENT_TYPES: Record<WebhookBodyType, string | null> = {
+  json: "application/json",
+  form: "application/x-www-form-urlencoded",
+  text: "text/plain; charset=utf-8",
+  xml: "application/xml",
+  "base64-binary": "application/octet-stream",
+  none: null,
+};
+
+/**
+ * Métodos que nunca levam corpo (fetch rejeita GET/HEAD com body)
+ */
+const BODYLESS_METHODS = ["GET", "HEAD"];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Corpo pronto para o fetch
+ */
+export interface SerializedRequestBody {
+  body: string | Buffer | undefined;
+  contentType: string | null;
+}
+
+function isFormValue(value: any): boolean {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+/**
+ * Valida destination.bodyType e a compatibilidade com destination.body
+ * Retorna null quando válido, senão a mensagem de erro
+ */
+export function validateRequestBody(bodyType: any, body: any): string | null {
+  if (!Object.keys(DEFAULT_CONTENT_TYPES).includes(bodyType)) {
+    return "Invalid destination.bodyType (expected: json, form, text, xml, base64-binary, none)";
+  }
+  if (body === undefined || bodyType === "json" || bodyType === "none") {
+    return null;
+  }
+
+  switch (bodyType) {
+    case "form":
+      // String já codificada ou objeto plano (arrays viram chaves repetidas)
+      return typeof body === "string" ||
+        (typeof body === "object" &&
+          !Array.isArray(body) &&
+          body !== null &&
+          Object.values(body).every(
+            (value) =>
+              isFormValue(value) ||
+              (Array.isArray(value) && value.every(isFormValue))
+          ))
+        ? null
+        : "destination.body must be a string or a flat object for bodyType form";
+    case "base64-binary":
+      return typeof body === "string" && BASE64_PATTERN.test(body)
+        ? null
+        : "destination.body must be a base64 string for bodyType base64-binary";
+    default:
+      return typeof body === "string"
+        ? null
+        : `destination.body must be a string for bodyType ${bodyType}`;
+  }
+}
+
+function encodeForm(body: any): string {
+  if (typeof body === "string") return body;
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(body ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(key, String(item));
+    }
+  }
+  return params.toString();
+}
+
+/**
+ * Serializa o corpo conforme bodyType
+ * GET/HEAD e bodyType "none" nunca enviam corpo
+ */
+export function serializeRequestBody(
+  body: any,
+  bodyType: WebhookBodyType = "json",
+  method: string = "POST"
+): SerializedRequestBody {
+  if (
+    bodyType === "none" ||
+    BODYLESS_METHODS.includes(method.toUpperCase()) ||
+    body === undefined
+  ) {
+    return { body: undefined, contentType: null };
+  }
+
+  const contentType = DEFAULT_CONTENT_TYPES[bodyType];
+
+  switch (bodyType) {
+    case "form":
+      return { body: encodeForm(body), contentType };
+    case "base64-binary":
+      return { body: Buffer.from(body, "base64"), contentType };
+    case "text":
+    case "xml":
+      return { body: String(body), contentType };
+    default:
+      return { body: JSON.stringify(body), contentType };
+  }
+}
+
+/**
+ * Representação do corpo para o log de entrega
+ * Binário fica em base64 (como recebido); demais, como enviados
+ */
+export function describeRequestBody(
+  body: any,
+  bodyType: WebhookBodyType = "json",
+  method: string = "POST"
+): string {
+  const serialized = serializeRequestBody(body, bodyType, method);
+
+  if (serialized.body === undefined) return "";
+  return bodyType === "base64-binary" ? String(body) : String(serialized.body);
+}
+
+/**
+ * Headers finais: Content-Type padrão do bodyType, a menos que o job
+ * já informe um (comparação sem diferenciar maiúsculas)
+ */
+export function withContentType(
+  headers: Record<string, string>,
+  contentType: string | null
+): Record<string, string> {
+  const hasContentType = Object.keys(headers).some(
+    (name) => name.toLowerCase() === "content-type"
+  );
+
+  return contentType && !hasContentType
+    ? { "Content-Type": contentType, ...headers }
+    : headers;
+}
@@ -0,0 +1,76 @@
+// src/lib/queue/retryPolicy.ts
+
+/**
+ * Regra de retry por status HTTP: código exato (429, "429")
+ * ou classe inteira ("5xx", "4xx")
+ */
+export type RetryOnRule = number | string;
+
+/**
+ * Padrão: erros do servidor, timeout do destino e rate limit
+ * Demais 4xx (400, 401, 404, 422...) nunca vão dar certo → falha definitiva
+ */
+export const DEFAULT_RETRY_ON: RetryOnRule[] = ["5xx", 408, 429];
+
+const STATUS_CLASS_PATTERN = /^[1-5]xx$/i;
+const STATUS_CODE_PATTERN = /^[1-5]\d{2}$/;
+
+function isValidRetryOnRule(rule: any): boolean {
+  if (typeof rule === "number") {
+    return Number.isInteger(rule) && rule >= 100 && rule <= 599;
+  }
+  return (
+    typeof rule === "string" &&
+    (STATUS_CLASS_PATTERN.test(rule) || STATUS_CODE_PATTERN.test(rule))
+  );
+}
+
+/**
+ * Valida options.retryOn (lista de regras)
+ */
+export function isValidRetryOn(value: any): boolean {
+  return Array.isArray(value) && value.every(isValidRetryOnRule);
+}
+
+/**
+ * Política global: WEBHOOK_RETRY_ON (ex: "5xx,408,429,409")
+ * Regras inválidas são ignoradas; sem regras válidas → DEFAULT_RETRY_ON
+ */
+export function getGlobalRetryOn(): RetryOnRule[] {
+  const rules = (process.env.WEBHOOK_RETRY_ON || "")
+    .split(",")
+    .map((rule) => rule.trim())
+    .filter(isValidRetryOnRule);
+
+  return rules.length > 0 ? rules : DEFAULT_RETRY_ON;
+}
+
+/**
+ * Verifica se o status HTTP bate com alguma regra
+ */
+export function matchesRetryOn(
+  statusCode: number,
+  rules: RetryOnRule[]
+): boolean {
+  return rules.some((rule) => {
+    const value = String(rule).toLowerCase();
+    return value.endsWith("xx")
+      ? Math.floor(statusCode / 100) === Number(value[0])
+      : Number(value) === statusCode;
+  });
+}
+
+/**
+ * Classifica uma falha de entrega
+ * - Sem resposta HTTP (timeout, DNS, conexão): sempre retentável
+ * - Com resposta HTTP: retentável se o status bater com retryOn do job
+ *   (ou a política global)
+ */
+export function isRetryableFailure(
+  statusCode: number | null,
+  retryOn?: RetryOnRule[]
+): boolean {
+  if (!statusCode) return true;
+
+  return matchesRetryOn(statusCode, retryOn ?? getGlobalRetryOn());
+}
@@ -0,0 +1,266 @@
+// src/lib/queue/schedules.ts
+import crypto from "crypto";
+import { getNextMillis, JobSchedulerJson, Queue } from "bullmq";
+import { getRedisSingleton } from "./connection";
+import {
+  buildJobOptions,
+  buildWebhookJobData,
+  getDestinationUrl,
+  validateEnqueuePayload,
+} from "./enqueue";
+import { assertDestinationAllowed } from "./tenantPolicy";
+import { WebhookJobData } from "./webhookWorker";
+import {
+  QueueJobPayload,
+  WebhookSchedule,
+  WebhookScheduleRequest,
+  WebhookScheduleRun,
+} from "../types";
+
+/**
+ * Hash com o resultado da última execução de cada schedule
+ */
+const LAST_RUN_KEY = "webhook-schedules:last-run";
+
+/**
+ * Erro de validação de um schedule (responder 400)
+ */
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleValidationError";
+  }
+}
+
+async function withWebhooksQueue<R>(
+  fn: (queue: Queue<WebhookJobData>) => Promise<R>
+): Promise<R> {
+  const queue = new Queue<WebhookJobData>("webhooks", {
+    connection: getRedisSingleton(),
+  });
+
+  try {
+    return await fn(queue);
+  } finally {
+    await queue.close();
+  }
+}
+
+/**
+ * Valida cron + timezone calculando a próxima execução
+ */
+function assertValidCron(cron: string, timezone: string): void {
+  let next: number | undefined;
+
+  try {
+    next = getNextMillis(Date.now(), { pattern: cron, tz: timezone });
+  } catch (error: any) {
+    throw new ScheduleValidationError(
+      `Invalid cron expression or timezone: ${error.message}`
+    );
+  }
+
+  if (!next) {
+    throw new ScheduleValidationError(
+      `Cron expression "${cron}" has no future runs`
+    );
+  }
+}
+
+/**
+ * Valida o corpo de criação/atualização de um schedule
+ * Mesmas regras do enfileiramento, incluindo a política de destinos do tenant
+ * (lança DestinationNotAllowedError → 403)
+ */
+async function validateScheduleRequest(
+  request: WebhookScheduleRequest
+): Promise<void> {
+  if (!request || typeof request.cron !== "string" || !request.cron.trim()) {
+    throw new ScheduleValidationError("Missing required field: cron");
+  }
+
+  const validationError = validateEnqueuePayload(request.payload);
+  if (validationError) {
+    throw new ScheduleValidationError(
+      `Invalid payload: ${validationError.response.error}`
+    );
+  }
+
+  if (
+    request.payload.options?.delay !== undefined ||
+    request.payload.options?.sendAt !== undefined
+  ) {
+    throw new ScheduleValidationError(
+      "options.delay and options.sendAt are not supported in schedules"
+    );
+  }
+
+  assertValidCron(request.cron, request.timezone || "UTC");
+
+  await assertDestinationAllowed(
+    request.payload.tenantId,
+    getDestinationUrl(request.payload)!
+  );
+}
+
+async function getLastRuns(
+  ids: string[]
+): Promise<Record<string, WebhookScheduleRun | null>> {
+  if (ids.length === 0) return {};
+
+  const values = await getRedisSingleton().hmget(LAST_RUN_KEY, ...ids);
+
+  return Object.fromEntries(
+    ids.map((id, index) => [
+      id,
+      values[index] ? JSON.parse(values[index]!) : null,
+    ])
+  );
+}
+
+function toSchedule(
+  scheduler: JobSchedulerJson<WebhookJobData>,
+  lastRun: WebhookScheduleRun | null
+): WebhookSchedule {
+  const template = scheduler.template?.data as WebhookJobData;
+
+  return {
+    id: scheduler.key,
+    tenantId: template.tenantId,
+    cron: scheduler.pattern!,
+    timezone: scheduler.tz || "UTC",
+    payload: template.schedulePayload!,
+    nextRunAt: scheduler.next ? new Date(scheduler.next).toISOString() : null,
+    lastRun,
+  };
+}
+
+/**
+ * Cria ou substitui o job scheduler no BullMQ
+ */
+async function upsertSchedule(
+  id: string,
+  request: WebhookScheduleRequest
+): Promise<WebhookSchedule> {
+  const payload: QueueJobPayload = request.payload;
+  const timezone = request.timezone || "UTC";
+  const { delay: _delay, ...opts } = buildJobOptions(payload);
+  // timestamp é definido a cada execução, não no template
+  const { timestamp: _timestamp, ...data } = buildWebhookJobData(payload);
+
+  await withWebhooksQueue((queue) =>
+    queue.upsertJobScheduler(
+      id,
+      { pattern: request.cron, tz: timezone },
+      {
+        name: "webhook",
+        // Guardar o payload original para exibição e edição
+        data: { ...data, schedulePayload: payload },
+        opts,
+      }
+    )
+  );
+
+  const schedule = await getSchedule(id, payload.tenantId);
+  return schedule!;
+}
+
+/**
+ * Cria um novo schedule recorrente para o tenant do payload
+ */
+export async function createSchedule(
+  request: WebhookScheduleRequest
+): Promise<WebhookSchedule> {
+  await validateScheduleRequest(request);
+
+  // ⚠️ BullMQ não aceita ":" em ids
+  const id = `schedule-${request.payload.tenantId}-${crypto.randomUUID()}`;
+  return upsertSchedule(id, request);
+}
+
+/**
+ * Atualiza um schedule existente (mesmo tenant)
+ * Retorna null se o schedule não existir para o tenant
+ */
+export async function updateSchedule(
+  id: string,
+  request: WebhookScheduleRequest
+): Promise<WebhookSchedule | null> {
+  await validateScheduleRequest(request);
+
+  const existing = await getSchedule(id, request.payload.tenantId);
+  if (!existing) return null;
+
+  return upsertSchedule(id, request);
+}
+
+/**
+ * Busca um schedule (null se não existir ou for de outro tenant)
+ */
+export async function getSchedule(
+  id: string,
+  tenantId: number
+): Promise<WebhookSchedule | null> {
+  const scheduler = await withWebhooksQueue((queue) =>
+    queue.getJobScheduler(id)
+  );
+
+  if (
+    !scheduler ||
+    String(scheduler.template?.data?.tenantId) !== String(tenantId)
+  ) {
+    return null;
+  }
+
+  const lastRuns = await getLastRuns([scheduler.key]);
+  return toSchedule(scheduler, lastRuns[scheduler.key]);
+}
+
+/**
+ * Lista os schedules de um tenant (ordenados pela próxima execução)
+ */
+export async function listSchedules(
+  tenantId: number
+): Promise<WebhookSchedule[]> {
+  const schedulers = await withWebhooksQueue((queue) =>
+    queue.getJobSchedulers(0, -1, true)
+  );
+
+  const owned = schedulers.filter(
+    (scheduler) =>
+      String(scheduler.template?.data?.tenantId) === String(tenantId)
+  );
+  const lastRuns = await getLastRuns(owned.map((s) => s.key));
+
+  return owned.map((scheduler) =>
+    toSchedule(scheduler, lastRuns[scheduler.key])
+  );
+}
+
+/**
+ * Remove o schedule (e o job repetível pendente)
+ * Retorna false se não existir para o tenant
+ */
+export async function deleteSchedule(
+  id: string,
+  tenantId: number
+): Promise<boolean> {
+  const existing = await getSchedule(id, tenantId);
+  if (!existing) return false;
+
+  await withWebhooksQueue((queue) => queue.removeJobScheduler(id));
+  await getRedisSingleton().hdel(LAST_RUN_KEY, id);
+
+  return true;
+}
+
+/**
+ * Registra o resultado de uma execução gerada por um schedule
+ * Chamado pelo WebhookWorker ao fim de cada tentativa
+ */
+export async function recordScheduleRun(
+  scheduleId: string,
+  run: WebhookScheduleRun
+): Promise<void> {
+  await getRedisSingleton().hset(LAST_RUN_KEY, scheduleId, JSON.stringify(run));
+}
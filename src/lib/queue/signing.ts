@@ -0,0 +1,136 @@
+// src/lib/queue/signing.ts
+import crypto from "crypto";
+import { WebhookSigningOptions } from "../types";
+import {
+  buildStandardWebhookHeaders,
+  isStandardWebhookSecret,
+} from "../standardWebhooks";
+
+/**
+ * Prefixo das variáveis com os secrets de assinatura
+ * destination.signing.secretName "partner_x" → WEBHOOK_SIGNING_SECRET_PARTNER_X
+ * ⚠️ O job guarda apenas o nome: o secret nunca vai para o Redis
+ * No scheme "standard-webhooks" a variável aceita vários secrets "whsec_..."
+ * separados por espaço ou vírgula (todos assinam durante a rotação)
+ */
+export const SIGNING_SECRET_ENV_PREFIX = "WEBHOOK_SIGNING_SECRET_";
+
+export const DEFAULT_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const DEFAULT_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Secret configurado para o destino não existe (mais) no servidor
+ * ou está em formato inválido para o scheme
+ */
+export class SigningSecretError extends Error {
+  constructor(secretName: string, reason: string = "is not configured") {
+    super(`Signing secret "${secretName}" ${reason}`);
+    this.name = "SigningSecretError";
+  }
+}
+
+/**
+ * Lê o secret pelo nome (null quando não configurado)
+ */
+export function getSigningSecret(secretName: string): string | null {
+  return (
+    process.env[`${SIGNING_SECRET_ENV_PREFIX}${secretName.toUpperCase()}`] ||
+    null
+  );
+}
+
+/**
+ * Secrets ativos de um nome (vários apenas durante rotação)
+ */
+export function getSigningSecrets(secretName: string): string[] {
+  return (getSigningSecret(secretName) || "").split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Valida destination.signing (formato; a existência do secret é checada à parte)
+ */
+export function isValidSigning(value: any): boolean {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+
+  const isOneOf = (field: any, allowed: string[]) =>
+    field === undefined || allowed.includes(field);
+  const isHeaderName = (field: any) =>
+    field === undefined ||
+    (typeof field === "string" && HEADER_NAME_PATTERN.test(field));
+
+  return (
+    typeof value.secretName === "string" &&
+    SECRET_NAME_PATTERN.test(value.secretName) &&
+    isOneOf(value.scheme, ["hmac", "standard-webhooks"]) &&
+    isOneOf(value.algorithm, ["sha256", "sha512"]) &&
+    isOneOf(value.payload, ["body", "timestamp.body"]) &&
+    isOneOf(value.encoding, ["hex", "base64"]) &&
+    isHeaderName(value.header) &&
+    isHeaderName(value.timestampHeader)
+  );
+}
+
+/**
+ * webhook-id do Standard Webhooks: estável entre retries do mesmo job
+ */
+export function getStandardWebhookId(jobId: string): string {
+  return `msg_${jobId}`;
+}
+
+/**
+ * Headers de assinatura de uma tentativa
+ * Chamado a cada envio: o timestamp é sempre o do momento da tentativa
+ *
+ * @throws SigningSecretError se o secret não estiver configurado
+ */
+export function buildSignatureHeaders(
+  signing: WebhookSigningOptions,
+  body: string | Buffer,
+  jobId: string,
+  now: number = Date.now()
+): Record<string, string> {
+  if (signing.scheme === "standard-webhooks") {
+    const secrets = getSigningSecrets(signing.secretName);
+    if (secrets.length === 0) {
+      throw new SigningSecretError(signing.secretName);
+    }
+    if (!secrets.every(isStandardWebhookSecret)) {
+      throw new SigningSecretError(
+        signing.secretName,
+        'must contain only "whsec_" secrets'
+      );
+    }
+
+    return buildStandardWebhookHeaders(
+      getStandardWebhookId(jobId),
+      body,
+      secrets,
+      now
+    );
+  }
+
+  const secret = getSigningSecret(signing.secretName);
+  if (!secret) {
+    throw new SigningSecretError(signing.secretName);
+  }
+
+  const headers: Record<string, string> = {};
+  const hmac = crypto.createHmac(signing.algorithm || "sha256", secret);
+
+  if (signing.payload === "timestamp.body") {
+    const timestamp = String(Math.floor(now / 1000));
+    headers[signing.timestampHeader || DEFAULT_TIMESTAMP_HEADER] = timestamp;
+    hmac.update(`${timestamp}.`);
+  }
+
+  headers[signing.header || DEFAULT_SIGNATURE_HEADER] = hmac
+    .update(body)
+    .digest(signing.encoding || "hex");
+
+  return headers;
+}
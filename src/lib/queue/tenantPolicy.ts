@@ -0,0 +1,135 @@
+// src/lib/queue/tenantPolicy.ts
+import { getRedisSingleton } from "./connection";
+import { TenantDestinationPolicy } from "../types";
+
+/**
+ * Código de erro de destinos fora da política do tenant (API e callback)
+ */
+export const DESTINATION_NOT_ALLOWED = "DESTINATION_NOT_ALLOWED";
+
+/**
+ * Maior número de padrões por tenant
+ */
+const MAX_ALLOWED_HOSTS = 100;
+
+/**
+ * Host exato ("api.parceiro.com") ou subdomínios ("*.parceiro.com")
+ */
+const HOST_PATTERN =
+  /^(\*\.)?([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+
+/**
+ * Corpo inválido em PUT /queue/tenants/:tenantId/policy (responder 400)
+ */
+export class TenantPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TenantPolicyError";
+  }
+}
+
+/**
+ * Destino fora da política do tenant
+ */
+export class DestinationNotAllowedError extends Error {
+  readonly code = DESTINATION_NOT_ALLOWED;
+
+  constructor(tenantId: number, host: string) {
+    super(`Destination host ${host} is not allowed for tenant ${tenantId}`);
+    this.name = "DestinationNotAllowedError";
+  }
+}
+
+/**
+ * Tenants sem política cadastrada
+ * TENANT_POLICY_DEFAULT: "allow" (padrão, compatível) ou "deny"
+ */
+function isDenyByDefault(): boolean {
+  return process.env.TENANT_POLICY_DEFAULT === "deny";
+}
+
+function getRedisKey(tenantId: number): string {
+  return `tenant-policy:${tenantId}`;
+}
+
+export async function getTenantPolicy(
+  tenantId: number
+): Promise<TenantDestinationPolicy | null> {
+  const value = await getRedisSingleton().get(getRedisKey(tenantId));
+  return value ? (JSON.parse(value) as TenantDestinationPolicy) : null;
+}
+
+/**
+ * Cria ou substitui a política do tenant
+ *
+ * @throws TenantPolicyError se allowedHosts for inválido
+ */
+export async function setTenantPolicy(
+  tenantId: number,
+  input: any
+): Promise<TenantDestinationPolicy> {
+  const allowedHosts = input?.allowedHosts;
+
+  if (
+    !Array.isArray(allowedHosts) ||
+    allowedHosts.length > MAX_ALLOWED_HOSTS ||
+    !allowedHosts.every(
+      (host) => typeof host === "string" && HOST_PATTERN.test(host)
+    )
+  ) {
+    throw new TenantPolicyError(
+      `Invalid allowedHosts (expected up to ${MAX_ALLOWED_HOSTS} lowercase hosts like "api.partner.com" or "*.partner.com")`
+    );
+  }
+
+  const policy: TenantDestinationPolicy = {
+    tenantId,
+    allowedHosts: [...new Set<string>(allowedHosts)],
+    updatedAt: new Date().toISOString(),
+  };
+
+  await getRedisSingleton().set(getRedisKey(tenantId), JSON.stringify(policy));
+  return policy;
+}
+
+/**
+ * Remove a política (volta ao TENANT_POLICY_DEFAULT)
+ * Retorna false se não existia
+ */
+export async function deleteTenantPolicy(tenantId: number): Promise<boolean> {
+  return (await getRedisSingleton().del(getRedisKey(tenantId))) > 0;
+}
+
+function matchesHost(hostname: string, pattern: string): boolean {
+  return pattern.startsWith("*.")
+    ? hostname.endsWith(pattern.slice(1))
+    : hostname === pattern;
+}
+
+/**
+ * Verifica se o tenant pode entregar para a URL
+ * Lança DestinationNotAllowedError quando a política (ou o padrão "deny") bloqueia
+ * Chamado em todo enfileiramento (add, batch, schedules) e no worker
+ */
+export async function assertDestinationAllowed(
+  tenantId: number,
+  url: string
+): Promise<void> {
+  const policy = await getTenantPolicy(tenantId);
+
+  if (!policy && !isDenyByDefault()) return;
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    hostname = url;
+  }
+
+  if (
+    !policy ||
+    !policy.allowedHosts.some((pattern) => matchesHost(hostname, pattern))
+  ) {
+    throw new DestinationNotAllowedError(tenantId, hostname);
+  }
+}
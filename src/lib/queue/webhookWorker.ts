@@ -1,8 +1,55 @@
 // src/lib/queue/webhookWorker.ts
-import { Job } from "bullmq";
+import { Job, UnrecoverableError } from "bullmq";
 import { BaseWorker } from "./BaseWorker";
-import { sendCallback } from "../callbackSender";
-import { WorkerCallbackPayload } from "../types";
+import { isCallbackEventEnabled } from "../callbackSender";
+import {
+  QueueJobPayload,
+  WebhookBackoffOptions,
+  WebhookBodyType,
+  WebhookRedirectHop,
+  WebhookRedirectOptions,
+  WebhookScheduleRun,
+  WebhookSigningOptions,
+  WorkerCallbackEvent,
+  WorkerCallbackPayload,
+} from "../types";
+import { getSafeLockDuration, resolveDeliveryTimeout } from "./deliveryTimeout";
+import { recordScheduleRun } from "./schedules";
+import { getDeadLetterQueue } from "./deadLetterQueue";
+import { enqueueCallback } from "./callbackQueue";
+import { isRetryableFailure, RetryOnRule } from "./retryPolicy";
+import {
+  BackoffAwareError,
+  computeBackoffDelay,
+  parseRetryAfter,
+} from "./backoff";
+import { buildSignatureHeaders, SigningSecretError } from "./signing";
+import {
+  assertPublicUrl,
+  getSsrfSafeDispatcher,
+  SsrfBlockedError,
+  SSRF_BLOCKED,
+  unwrapSsrfError,
+} from "../ssrf";
+import {
+  assertDestinationAllowed,
+  DestinationNotAllowedError,
+  DESTINATION_NOT_ALLOWED,
+} from "./tenantPolicy";
+import {
+  fetchWithRedirects,
+  isRedirectStatus,
+  RedirectError,
+} from "./redirects";
+import {
+  describeRequestBody,
+  serializeRequestBody,
+  withContentType,
+} from "./requestBody";
+import { createLogger } from "../logger";
+
+const log = createLogger("webhook-worker");
+const webhookLoggerLog = createLogger("webhook-logger");
 
 /**
  * Dados específicos para jobs de webhook
@@ -26,16 +73,146 @@ export interface WebhookJobData {
   jobType?: "webhook" | "email" | "sms" | "notification";
   destination?: {
     url: string;
-    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+    method: "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE";
     headers?: Record<string, string>;
     body?: any;
+    bodyType?: WebhookBodyType;
     timeout?: number;
+    signing?: WebhookSigningOptions; // Só o nome do secret é persistido
+    redirect?: WebhookRedirectOptions;
   };
   callback?: {
     url: string; // URL enviada pelo Next.js
     secret?: string; // HMAC específico (opcional)
+    events?: WorkerCallbackEvent[]; // Padrão: ["success", "failed"]
   };
   metadata?: Record<string, any>;
+
+  // Payload original (apenas jobs gerados por /queue/schedules)
+  schedulePayload?: QueueJobPayload;
+
+  // jobId original quando o job é um replay
+  replayOf?: string;
+
+  // Status HTTP retentáveis (options.retryOn); ausente → política global
+  retryOn?: RetryOnRule[];
+
+  // Estratégia de backoff normalizada (options.backoff); ausente → exponencial
+  backoff?: WebhookBackoffOptions;
+
+  // Espera calculada pela estratégia no último retry (base do decorrelated jitter)
+  lastBackoffDelayMs?: number;
+}
+
+/**
+ * Resultado de uma tentativa de entrega (histórico do job)
+ */
+export interface WebhookAttemptRecord {
+  attempt: number;
+  statusCode: number | null;
+  errorCategory: string | null;
+  error?: string;
+  durationMs: number;
+  at: string; // ISO 8601
+}
+
+/**
+ * Progresso registrado a cada tentativa (job.progress)
+ * Permite consultar o último status/erro sem depender do callback
+ */
+export interface WebhookDeliveryProgress {
+  attempt: number;
+  statusCode: number | null;
+  errorCategory: string | null;
+  updatedAt: string; // ISO 8601
+  history?: WebhookAttemptRecord[]; // Tentativas anteriores + atual
+}
+
+/**
+ * Máximo de tentativas mantidas no histórico do progresso
+ */
+const MAX_ATTEMPT_HISTORY = 25;
+
+/**
+ * Histórico de tentativas salvo no progresso do job
+ */
+export function getAttemptHistory(job: Job): WebhookAttemptRecord[] {
+  const progress = job.progress as WebhookDeliveryProgress | number;
+
+  return typeof progress === "object" && Array.isArray(progress?.history)
+    ? progress.history
+    : [];
+}
+
+/**
+ * Persiste o resultado da tentativa atual no progresso do job
+ * Falhas aqui nunca devem derrubar o processamento do webhook
+ */
+async function recordDeliveryProgress(
+  job: Job<WebhookJobData>,
+  attempt: Omit<WebhookAttemptRecord, "at">
+): Promise<void> {
+  const now = new Date().toISOString();
+  const progress: WebhookDeliveryProgress = {
+    attempt: attempt.attempt,
+    statusCode: attempt.statusCode,
+    errorCategory: attempt.errorCategory,
+    updatedAt: now,
+    history: [...getAttemptHistory(job), { ...attempt, at: now }].slice(
+      -MAX_ATTEMPT_HISTORY
+    ),
+  };
+
+  try {
+    await job.updateProgress(progress);
+  } catch (error: any) {
+    log.warn("progress_update_failed", {
+      job_id: job.id,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Persiste a espera calculada pela estratégia de backoff no job
+ * (job.delay não serve: o BullMQ zera o campo ao promover o job)
+ */
+async function recordBackoffDelay(
+  job: Job<WebhookJobData>,
+  delayMs: number
+): Promise<void> {
+  try {
+    await job.updateData({ ...job.data, lastBackoffDelayMs: delayMs });
+  } catch (error: any) {
+    log.warn("backoff_record_failed", {
+      job_id: job.id,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Registra o resultado da execução quando o job veio de um schedule
+ */
+async function recordScheduledRun(
+  job: Job<WebhookJobData>,
+  run: Omit<WebhookScheduleRun, "jobId" | "finishedAt">
+): Promise<void> {
+  if (!job.repeatJobKey) return;
+
+  try {
+    await recordScheduleRun(job.repeatJobKey, {
+      ...run,
+      jobId: job.id || "unknown",
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    log.warn("schedule_run_record_failed", {
+      job_id: job.id,
+      schedule_id: job.repeatJobKey,
+      error: error.message,
+    });
+  }
 }
 
 /**
@@ -130,6 +307,8 @@ async function saveWebhookLog(logData: {
   success: boolean;
   errorMessage: string | null;
   requestBody: string;
+  requestBodyType: WebhookBodyType;
+  redirectChain?: WebhookRedirectHop[];
   responseBody: string | null;
   duration: number;
   attemptNumber: number;
@@ -139,35 +318,23 @@ async function saveWebhookLog(logData: {
 
   // ✅ APP_URL é OPCIONAL - se não configurado, apenas não salva o log antigo
   if (!apiUrl) {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-logger",
-        event: "legacy_log_skipped",
-        message:
-          "APP_URL not configured - legacy webhook log not saved (callback system is being used)",
-        tenant_id: logData.tenantId,
-        integration_id: logData.integrationId,
-      })
-    );
+    webhookLoggerLog.info("legacy_log_skipped", {
+      message:
+        "APP_URL not configured - legacy webhook log not saved (callback system is being used)",
+      tenant_id: logData.tenantId,
+      integration_id: logData.integrationId,
+    });
     return;
   }
 
   // ✅ QUEUE_WORKER_SECRET também é opcional para saveWebhookLog
   if (!apiSecret) {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-logger",
-        event: "legacy_log_skipped",
-        message:
-          "QUEUE_WORKER_SECRET not configured - legacy webhook log not saved",
-        tenant_id: logData.tenantId,
-        integration_id: logData.integrationId,
-      })
-    );
+    webhookLoggerLog.info("legacy_log_skipped", {
+      message:
+        "QUEUE_WORKER_SECRET not configured - legacy webhook log not saved",
+      tenant_id: logData.tenantId,
+      integration_id: logData.integrationId,
+    });
     return;
   }
 
@@ -195,49 +362,31 @@ async function saveWebhookLog(logData: {
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "webhook-logger",
-          event: "api_error",
-          tenant_id: logData.tenantId,
-          integration_id: logData.integrationId,
-          api_status: response.status,
-          api_error: errorText,
-          duration_ms: duration,
-        })
-      );
-      return;
-    }
-
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-logger",
-        event: "log_saved",
+      webhookLoggerLog.error("api_error", {
         tenant_id: logData.tenantId,
         integration_id: logData.integrationId,
+        api_status: response.status,
+        api_error: errorText,
         duration_ms: duration,
-      })
-    );
+      });
+      return;
+    }
+
+    webhookLoggerLog.info("log_saved", {
+      tenant_id: logData.tenantId,
+      integration_id: logData.integrationId,
+      duration_ms: duration,
+    });
   } catch (error: any) {
     clearTimeout(timeoutId);
 
     const errorType = error.name === "AbortError" ? "timeout" : "network_error";
 
-    console.error(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "error",
-        service: "webhook-logger",
-        event: errorType,
-        tenant_id: logData.tenantId,
-        integration_id: logData.integrationId,
-        error: error.message,
-      })
-    );
+    webhookLoggerLog.error(errorType, {
+      tenant_id: logData.tenantId,
+      integration_id: logData.integrationId,
+      error: error.message,
+    });
   }
 }
 
@@ -252,7 +401,7 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
         max: 50, // ✅ Limite mais robusto
         duration: 1000,
       },
-      lockDuration: 60000, // ✅ 60s lock duration
+      lockDuration: getSafeLockDuration(), // ✅ Acima do maior timeout possível
       stalledInterval: 30000, // ✅ 30s stalled interval
       maxStalledCount: 2,
     });
@@ -274,16 +423,30 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
       ? job.data.destination!.headers || {}
       : job.data.headers || {};
     const body = isNewFormat ? job.data.destination!.body : job.data.body;
+    const bodyType = (isNewFormat && job.data.destination!.bodyType) || "json";
+    const signing = isNewFormat ? job.data.destination!.signing : undefined;
+    const redirect: WebhookRedirectOptions = (isNewFormat &&
+      job.data.destination!.redirect) || { mode: "follow" };
+    // Timeout efetivo (destination.timeout limitado pelos limites globais)
+    const timeoutMs = resolveDeliveryTimeout(
+      isNewFormat ? job.data.destination!.timeout : undefined
+    );
     const jobType = job.data.jobType || "webhook";
 
     // Extrair callback URL (se existir)
     const callbackUrl = job.data.callback?.url;
     const callbackSecret =
       job.data.callback?.secret || process.env.QUEUE_WORKER_SECRET || "";
+    const callbackEvents = job.data.callback?.events;
 
     const attemptNumber = job.attemptsMade + 1;
     const maxAttempts = job.opts.attempts || 5;
     const jobId = job.id || "unknown";
+    const jobLog = log.child({
+      queue: "webhooks",
+      job_id: jobId,
+      tenant_id: tenantId,
+    });
     const startedAt = new Date();
 
     // ✅ Obter circuit breaker específico para esta URL
@@ -296,26 +459,19 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
       const stats = circuitBreaker.getStats();
       const isLastAttempt = attemptNumber >= maxAttempts;
 
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "webhook-worker",
-          event: "circuit_breaker_open",
-          queue: "webhooks",
-          job_id: jobId,
-          tenant_id: tenantId,
-          integration_id: integrationId,
-          webhook_url: url,
-          circuit_breaker_key: circuitBreakerKey,
-          circuit_breaker_stats: stats,
-          is_last_attempt: isLastAttempt,
-          message: `Circuit breaker para "${url}" está aberto após ${stats.failures} falhas consecutivas`,
-        })
-      );
+      jobLog.error("circuit_breaker_open", {
+        integration_id: integrationId,
+        webhook_url: url,
+        circuit_breaker_key: circuitBreakerKey,
+        circuit_breaker_stats: stats,
+        is_last_attempt: isLastAttempt,
+        message: `Circuit breaker para "${url}" está aberto após ${stats.failures} falhas consecutivas`,
+      });
 
       // 🆕 ENVIAR CALLBACK APENAS NA ÚLTIMA TENTATIVA
-      if (isLastAttempt && callbackUrl && callbackSecret) {
+      const notifyFailed = isCallbackEventEnabled(callbackEvents, "failed");
+
+      if (isLastAttempt && notifyFailed && callbackUrl && callbackSecret) {
         const callbackPayload: WorkerCallbackPayload = {
           jobId,
           jobType: jobType as any,
@@ -329,6 +485,7 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
             method,
             statusCode: 0,
             duration: 0,
+            timeoutMs,
           },
           error: {
             message: `Circuit breaker aberto após ${stats.failures} falhas consecutivas - job abortado`,
@@ -345,103 +502,132 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
           metadata,
         };
 
-        // Enviar callback (não bloquear)
-        sendCallback(callbackPayload, callbackUrl, callbackSecret).catch(
-          (err) => {
-            console.error(
-              JSON.stringify({
-                timestamp: new Date().toISOString(),
-                level: "error",
-                service: "webhook-worker",
-                event: "callback_send_failed",
-                job_id: jobId,
-                error: err.message,
-              })
-            );
-          }
-        );
-      } else if (isLastAttempt && !callbackUrl) {
+        // ✅ Enfileirar na fila "callbacks" (entrega durável com retries)
+        await enqueueCallback(
+          callbackPayload,
+          callbackUrl,
+          job.data.callback?.secret
+        ).catch((err) => {
+          jobLog.error("callback_enqueue_failed", {
+            error: err.message,
+          });
+        });
+      } else if (isLastAttempt && notifyFailed && !callbackUrl) {
         // ⚠️ Callback não enviado na última tentativa
-        console.warn(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "warn",
-            service: "webhook-worker",
-            event: "callback_not_sent",
-            reason: !callbackUrl
-              ? "callback_url_not_provided"
-              : "callback_secret_not_provided",
-            queue: "webhooks",
-            job_id: jobId,
-            tenant_id: tenantId,
-            integration_id: integrationId,
-            webhook_status: "failed",
-            error_code: "CIRCUIT_BREAKER_OPEN",
-            message:
-              "Circuit breaker aberto e job morreu, mas callback não foi enviado (URL ou secret não fornecidos no payload)",
-          })
-        );
+        jobLog.warn("callback_not_sent", {
+          reason: !callbackUrl
+            ? "callback_url_not_provided"
+            : "callback_secret_not_provided",
+          integration_id: integrationId,
+          webhook_status: "failed",
+          error_code: "CIRCUIT_BREAKER_OPEN",
+          message:
+            "Circuit breaker aberto e job morreu, mas callback não foi enviado (URL ou secret não fornecidos no payload)",
+        });
       }
 
       throw new Error(`Circuit breaker is open. Failures: ${stats.failures}`);
     }
 
     // Log de início estruturado
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-worker",
-        event: "webhook_attempt_started",
-        queue: "webhooks",
-        job_id: jobId,
-        tenant_id: tenantId,
-        integration_id: integrationId,
-        integration_name: integrationName,
-        webhook_url: url,
-        attempt: attemptNumber,
-        max_attempts: maxAttempts,
-      })
-    );
+    jobLog.info("webhook_attempt_started", {
+      integration_id: integrationId,
+      integration_name: integrationName,
+      webhook_url: url,
+      attempt: attemptNumber,
+      max_attempts: maxAttempts,
+      timeout_ms: timeoutMs,
+    });
 
     const startTime = Date.now();
     let success = false;
     let statusCode: number | null = null;
     let responseBody: any = null;
     let errorMessage: string | null = null;
+    let retryAfterMs: number | null = null;
+    let isRateLimited = false;
+    // 🆕 Redirects do destino (preenchido mesmo quando a entrega falha)
+    const redirectChain: WebhookRedirectHop[] = [];
 
     try {
-      // ✅ AbortController com timeout 12s
+      // 🆕 Política do tenant (de novo: o job pode ter sido enfileirado
+      // antes da política ou por replay/requeue com outra URL)
+      await assertDestinationAllowed(tenantId, url);
+
+      // 🆕 SSRF: resolver o host e bloquear endereços internos
+      await assertPublicUrl(url);
+
+      // 🆕 Corpo conforme destination.bodyType (GET/HEAD nunca levam corpo)
+      const request = serializeRequestBody(body, bodyType, method || "POST");
+      // 🆕 Assinatura calculada a cada tentativa (timestamp sempre atual)
+      const signatureHeaders = signing
+        ? buildSignatureHeaders(signing, request.body ?? "", jobId)
+        : {};
+
+      // ✅ AbortController com timeout por job (destination.timeout)
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 12000);
-
-      console.log(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "info",
-          service: "webhook-worker",
-          event: "http_request_started",
-          job_id: jobId,
-          tenant_id: tenantId,
-          integration_id: integrationId,
-          url,
-          method: method || "POST",
-        })
-      );
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
-      const response = await fetch(url, {
+      jobLog.info("http_request_started", {
+        integration_id: integrationId,
+        url,
         method: method || "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...headers,
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
+        body_type: request.body === undefined ? "none" : bodyType,
+        signed: !!signing,
       });
 
-      clearTimeout(timeoutId);
+      let response: Response;
+      let finalUrl: string;
+
+      // 🆕 Redirects seguidos manualmente: cada salto passa de novo pela
+      // política do tenant e pela proteção contra SSRF
+      // ⚠️ Timer limpo também quando a entrega lança (rede, SSRF em um salto,
+      // política de redirect): senão o abort dispara depois, à toa
+      try {
+        ({ response, finalUrl } = await fetchWithRedirects(
+          url,
+          {
+            method: method || "POST",
+            headers: {
+              ...withContentType(headers, request.contentType),
+              ...signatureHeaders,
+            },
+            body: request.body,
+            signal: controller.signal,
+            // 🆕 IP validado de novo no connect (anti DNS rebinding)
+            dispatcher: getSsrfSafeDispatcher(),
+          },
+          redirect,
+          async (hopUrl) => {
+            await assertDestinationAllowed(tenantId, hopUrl);
+            await assertPublicUrl(hopUrl);
+          },
+          redirectChain
+        ));
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
       statusCode = response.status;
-      success = response.ok;
+      // mode "manual": o 3xx é o resultado da entrega
+      success =
+        response.ok ||
+        (redirect.mode === "manual" && isRedirectStatus(statusCode));
+
+      if (redirectChain.length > 0) {
+        jobLog.warn("webhook_redirected", {
+          integration_id: integrationId,
+          webhook_url: url,
+          final_url: finalUrl,
+          redirect_mode: redirect.mode,
+          redirect_chain: redirectChain,
+        });
+      }
+
+      // 🆕 Rate limit do destino: 429, ou 503 com Retry-After
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      isRateLimited =
+        statusCode === 429 || (statusCode === 503 && retryAfterMs !== null);
 
       // Capturar resposta
       try {
@@ -463,26 +649,19 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
         // ✅ Registrar sucesso no circuit breaker
         circuitBreaker.recordSuccess();
 
-        console.log(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "info",
-            service: "webhook-worker",
-            event: "webhook_success",
-            queue: "webhooks",
-            job_id: jobId,
-            tenant_id: tenantId,
-            integration_id: integrationId,
-            webhook_url: url,
-            http_status: statusCode,
-            duration_ms: duration,
-            attempt: attemptNumber,
-            max_attempts: maxAttempts,
-          })
-        );
+        jobLog.info("webhook_success", {
+          integration_id: integrationId,
+          webhook_url: url,
+          http_status: statusCode,
+          duration_ms: duration,
+          attempt: attemptNumber,
+          max_attempts: maxAttempts,
+        });
+
+        // 🆕 ENVIAR CALLBACK DE SUCESSO (se o evento foi assinado)
+        const notifySuccess = isCallbackEventEnabled(callbackEvents, "success");
 
-        // 🆕 ENVIAR CALLBACK DE SUCESSO
-        if (callbackUrl && callbackSecret) {
+        if (notifySuccess && callbackUrl && callbackSecret) {
           const callbackPayload: WorkerCallbackPayload = {
             jobId,
             jobType: jobType as any,
@@ -498,6 +677,8 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
               headers: Object.fromEntries(response.headers.entries()),
               body: responseBody,
               duration,
+              timeoutMs,
+              redirects: redirectChain.length > 0 ? redirectChain : undefined,
             },
             execution: {
               attempt: attemptNumber,
@@ -509,64 +690,45 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
             metadata,
           };
 
-          // Enviar callback (não bloquear o job se falhar)
-          sendCallback(callbackPayload, callbackUrl, callbackSecret).catch(
-            (err) => {
-              console.error(
-                JSON.stringify({
-                  timestamp: new Date().toISOString(),
-                  level: "error",
-                  service: "webhook-worker",
-                  event: "callback_send_failed",
-                  job_id: jobId,
-                  error: err.message,
-                })
-              );
-            }
-          );
-        } else {
+          // ✅ Enfileirar na fila "callbacks" (entrega durável com retries)
+          await enqueueCallback(
+            callbackPayload,
+            callbackUrl,
+            job.data.callback?.secret
+          ).catch((err) => {
+            jobLog.error("callback_enqueue_failed", {
+              error: err.message,
+            });
+          });
+        } else if (notifySuccess) {
           // ⚠️ Callback não enviado - URL ou secret não fornecidos
-          console.warn(
-            JSON.stringify({
-              timestamp: new Date().toISOString(),
-              level: "warn",
-              service: "webhook-worker",
-              event: "callback_not_sent",
-              reason: !callbackUrl
-                ? "callback_url_not_provided"
-                : "callback_secret_not_provided",
-              queue: "webhooks",
-              job_id: jobId,
-              tenant_id: tenantId,
-              integration_id: integrationId,
-              webhook_status: "success",
-              message:
-                "Job completado com sucesso mas callback não foi enviado (URL ou secret não fornecidos no payload)",
-            })
-          );
+          jobLog.warn("callback_not_sent", {
+            reason: !callbackUrl
+              ? "callback_url_not_provided"
+              : "callback_secret_not_provided",
+            integration_id: integrationId,
+            webhook_status: "success",
+            message:
+              "Job completado com sucesso mas callback não foi enviado (URL ou secret não fornecidos no payload)",
+          });
         }
       } else {
-        // ✅ Registrar falha no circuit breaker
-        circuitBreaker.recordFailure();
+        // ✅ Registrar falha no circuit breaker (exceto rate limit)
+        if (!isRateLimited) {
+          circuitBreaker.recordFailure();
+        }
 
-        console.error(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "error",
-            service: "webhook-worker",
-            event: "webhook_http_error",
-            queue: "webhooks",
-            job_id: jobId,
-            tenant_id: tenantId,
-            integration_id: integrationId,
-            webhook_url: url,
-            http_status: statusCode,
-            http_status_text: response.statusText,
-            duration_ms: duration,
-            attempt: attemptNumber,
-            max_attempts: maxAttempts,
-          })
-        );
+        jobLog.error("webhook_http_error", {
+          integration_id: integrationId,
+          webhook_url: url,
+          http_status: statusCode,
+          http_status_text: response.statusText,
+          retry_after_ms: retryAfterMs,
+          rate_limited: isRateLimited,
+          duration_ms: duration,
+          attempt: attemptNumber,
+          max_attempts: maxAttempts,
+        });
       }
 
       // Salvar log via API interna
@@ -581,7 +743,9 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
         errorMessage: success
           ? null
           : `HTTP ${statusCode}: ${response.statusText}`,
-        requestBody: JSON.stringify(body),
+        requestBody: describeRequestBody(body, bodyType, method || "POST"),
+        requestBodyType: bodyType,
+        redirectChain: redirectChain.length > 0 ? redirectChain : undefined,
         responseBody: responseBody ? JSON.stringify(responseBody) : null,
         duration,
         attemptNumber,
@@ -591,17 +755,52 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
         throw new Error(`HTTP ${statusCode}: ${response.statusText}`);
       }
 
+      await recordDeliveryProgress(job, {
+        attempt: attemptNumber,
+        statusCode,
+        errorCategory: null,
+        durationMs: duration,
+      });
+      await recordScheduledRun(job, {
+        status: "success",
+        attempt: attemptNumber,
+        statusCode,
+      });
+
       return { statusCode, success, duration };
-    } catch (error: any) {
+    } catch (caught: any) {
+      // Bloqueio no connect (DNS rebinding) chega embrulhado pelo fetch
+      const error = unwrapSsrfError(caught);
       const duration = Date.now() - startTime;
       errorMessage = error.message;
 
+      // 🆕 Bloqueado pelas regras de entrega (secret ausente, SSRF, política
+      // do tenant, redirect recusado): o destino não está fora do ar, então
+      // não conta para o circuit breaker
+      const isSigningError = error instanceof SigningSecretError;
+      const isSsrfBlocked = error instanceof SsrfBlockedError;
+      const isNotAllowed = error instanceof DestinationNotAllowedError;
+      const isRedirectError = error instanceof RedirectError;
+      const isPolicyError =
+        isSigningError || isSsrfBlocked || isNotAllowed || isRedirectError;
+
       // ✅ Registrar falha no circuit breaker
-      circuitBreaker.recordFailure();
+      // Rate limit não indica destino fora do ar → não conta
+      if (!isRateLimited && !isPolicyError) {
+        circuitBreaker.recordFailure();
+      }
 
       // Categorizar erro
       let errorCategory = "UNKNOWN_ERROR";
-      if (error.name === "AbortError" || error.name === "TimeoutError") {
+      if (isSigningError) {
+        errorCategory = "SIGNING_ERROR";
+      } else if (isSsrfBlocked) {
+        errorCategory = SSRF_BLOCKED;
+      } else if (isNotAllowed) {
+        errorCategory = DESTINATION_NOT_ALLOWED;
+      } else if (isRedirectError) {
+        errorCategory = error.code;
+      } else if (error.name === "AbortError" || error.name === "TimeoutError") {
         errorCategory = "TIMEOUT";
       } else if (error.message?.includes("fetch failed")) {
         errorCategory = "CONNECTION_FAILED";
@@ -609,28 +808,62 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
         errorCategory = "DNS_ERROR";
       } else if (error.message?.includes("ECONNREFUSED")) {
         errorCategory = "CONNECTION_REFUSED";
+      } else if (isRateLimited) {
+        errorCategory = "RATE_LIMITED";
+      } else if (statusCode) {
+        errorCategory = "HTTP_ERROR";
       }
 
-      console.error(
-        JSON.stringify({
-          timestamp: new Date().toISOString(),
-          level: "error",
-          service: "webhook-worker",
-          event: "webhook_error",
-          queue: "webhooks",
-          job_id: jobId,
-          tenant_id: tenantId,
-          integration_id: integrationId,
-          webhook_url: url,
-          error_category: errorCategory,
-          error_message: errorMessage,
-          duration_ms: duration,
-          attempt: attemptNumber,
-          max_attempts: maxAttempts,
-          will_retry: attemptNumber < maxAttempts,
-          circuit_breaker_stats: circuitBreaker.getStats(),
-        })
-      );
+      // 🆕 Política de retry: status fora de retryOn → falha definitiva
+      // Bloqueios por regra não se resolvem sozinhos
+      // (requeue pela DLQ após corrigir a configuração)
+      const isRetryable =
+        !isPolicyError && isRetryableFailure(statusCode, job.data.retryOn);
+      const isLastAttempt = attemptNumber >= maxAttempts || !isRetryable;
+
+      // 🆕 Espera até a próxima tentativa, calculada uma única vez
+      // (com jitter, recalcular no backoffStrategy daria outro valor)
+      const nextRetryDelayMs = isLastAttempt
+        ? null
+        : computeBackoffDelay(attemptNumber, job, retryAfterMs);
+      const nextRetryAt =
+        nextRetryDelayMs !== null
+          ? new Date(Date.now() + nextRetryDelayMs).toISOString()
+          : null;
+
+      // Retry-After é imposto pelo destino: não entra na progressão da estratégia
+      if (nextRetryDelayMs !== null && retryAfterMs === null) {
+        await recordBackoffDelay(job, nextRetryDelayMs);
+      }
+
+      await recordDeliveryProgress(job, {
+        attempt: attemptNumber,
+        statusCode,
+        errorCategory,
+        error: errorMessage || undefined,
+        durationMs: duration,
+      });
+      await recordScheduledRun(job, {
+        status: isLastAttempt ? "failed" : "retrying",
+        attempt: attemptNumber,
+        statusCode,
+        error: errorMessage || undefined,
+      });
+
+      jobLog.error("webhook_error", {
+        integration_id: integrationId,
+        webhook_url: url,
+        error_category: errorCategory,
+        error_message: errorMessage,
+        duration_ms: duration,
+        attempt: attemptNumber,
+        max_attempts: maxAttempts,
+        is_retryable: isRetryable,
+        will_retry: !isLastAttempt,
+        next_retry_at: nextRetryAt,
+        redirect_chain: redirectChain.length > 0 ? redirectChain : undefined,
+        circuit_breaker_stats: circuitBreaker.getStats(),
+      });
 
       // Salvar erro via API interna
       await saveWebhookLog({
@@ -642,37 +875,38 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
         statusCode: statusCode || 0,
         success: false,
         errorMessage,
-        requestBody: JSON.stringify(body),
+        requestBody: describeRequestBody(body, bodyType, method || "POST"),
+        requestBodyType: bodyType,
+        redirectChain: redirectChain.length > 0 ? redirectChain : undefined,
         responseBody: null,
         duration,
         attemptNumber,
       });
 
-      // 🆕 ENVIAR CALLBACK APENAS NA ÚLTIMA TENTATIVA (falha definitiva)
-      // Não envia em retries intermediários para evitar spam de callbacks
-      const isLastAttempt = attemptNumber >= maxAttempts;
-
-      if (isLastAttempt && callbackUrl && callbackSecret) {
-        const isRetryable = [
-          "TIMEOUT",
-          "CONNECTION_FAILED",
-          "DNS_ERROR",
-          "CONNECTION_REFUSED",
-        ].includes(errorCategory);
+      // 🆕 Callback "failed" na última tentativa (falha definitiva)
+      // Retries intermediários só notificam se o job assinou "retrying"
+      const callbackEvent = isLastAttempt ? "failed" : "retrying";
+      const notifyCallback = isCallbackEventEnabled(
+        callbackEvents,
+        callbackEvent
+      );
 
+      if (notifyCallback && callbackUrl && callbackSecret) {
         const callbackPayload: WorkerCallbackPayload = {
           jobId,
           jobType: jobType as any,
           tenantId,
           integrationId,
           negocioId,
-          status: "failed",
+          status: callbackEvent,
           success: false,
           destination: {
             url,
             method,
             statusCode: statusCode || 0,
             duration,
+            timeoutMs,
+            redirects: redirectChain.length > 0 ? redirectChain : undefined,
           },
           error: {
             message: errorMessage || "Unknown error",
@@ -685,51 +919,71 @@ class WebhookWorker extends BaseWorker<WebhookJobData> {
             startedAt: startedAt.toISOString(),
             completedAt: new Date().toISOString(),
             duration,
+            nextRetryAt: nextRetryAt || undefined,
           },
           metadata,
         };
 
-        // Enviar callback (não bloquear o job se falhar)
-        sendCallback(callbackPayload, callbackUrl, callbackSecret).catch(
-          (err) => {
-            console.error(
-              JSON.stringify({
-                timestamp: new Date().toISOString(),
-                level: "error",
-                service: "webhook-worker",
-                event: "callback_send_failed",
-                job_id: jobId,
-                error: err.message,
-              })
-            );
-          }
-        );
-      } else if (isLastAttempt && !callbackUrl) {
+        // ✅ Enfileirar na fila "callbacks" (entrega durável com retries)
+        await enqueueCallback(
+          callbackPayload,
+          callbackUrl,
+          job.data.callback?.secret
+        ).catch((err) => {
+          jobLog.error("callback_enqueue_failed", {
+            error: err.message,
+          });
+        });
+      } else if (isLastAttempt && notifyCallback && !callbackUrl) {
         // ⚠️ Callback não enviado na última tentativa
-        console.warn(
-          JSON.stringify({
-            timestamp: new Date().toISOString(),
-            level: "warn",
-            service: "webhook-worker",
-            event: "callback_not_sent",
-            reason: !callbackUrl
-              ? "callback_url_not_provided"
-              : "callback_secret_not_provided",
-            queue: "webhooks",
-            job_id: jobId,
-            tenant_id: tenantId,
-            integration_id: integrationId,
-            webhook_status: "failed",
-            error_category: errorCategory,
-            message: `Job falhou permanentemente mas callback não foi enviado (URL ou secret não fornecidos no payload)`,
-          })
-        );
+        jobLog.warn("callback_not_sent", {
+          reason: !callbackUrl
+            ? "callback_url_not_provided"
+            : "callback_secret_not_provided",
+          integration_id: integrationId,
+          webhook_status: "failed",
+          error_category: errorCategory,
+          message: `Job falhou permanentemente mas callback não foi enviado (URL ou secret não fornecidos no payload)`,
+        });
+      }
+
+      // ⚠️ UnrecoverableError: BullMQ não agenda novas tentativas
+      if (!isRetryable) {
+        throw new UnrecoverableError(errorMessage || "Non-retryable failure");
+      }
+
+      // 🆕 Espera já calculada → usada pelo webhookBackoffStrategy
+      if (nextRetryDelayMs !== null) {
+        (error as BackoffAwareError).backoffDelayMs = nextRetryDelayMs;
       }
 
       // Re-throw para BullMQ fazer retry
       throw error;
     }
   }
+
+  /**
+   * 🆕 Tentativas esgotadas → copiar para a DLQ "webhooks-dead"
+   */
+  protected async onJobDead(
+    job: Job<WebhookJobData>,
+    error: Error
+  ): Promise<void> {
+    const deadJobId = await getDeadLetterQueue("webhooks").addDeadJob(
+      job,
+      error,
+      getAttemptHistory(job)
+    );
+
+    log.warn("job_dead_lettered", {
+      queue: "webhooks",
+      job_id: job.id,
+      dead_job_id: deadJobId,
+      tenant_id: job.data.tenantId,
+      attempts_made: job.attemptsMade,
+      error: error.message,
+    });
+  }
 }
 
 // Singleton
@@ -737,53 +991,26 @@ export let webhookWorker: WebhookWorker;
 
 export function startWebhookWorker(): WebhookWorker {
   if (!webhookWorker) {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-worker",
-        event: "worker_starting",
-      })
-    );
+    log.info("worker_starting");
 
     webhookWorker = new WebhookWorker();
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-worker",
-        event: "worker_started",
-        message: "Circuit breakers isolados por URL/integração",
-      })
-    );
+    log.info("worker_started", {
+      message: "Circuit breakers isolados por URL/integração",
+    });
   }
   return webhookWorker;
 }
 
 export async function stopWebhookWorker(): Promise<void> {
   if (webhookWorker) {
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-worker",
-        event: "worker_stopping",
-      })
-    );
+    log.info("worker_stopping");
 
     // Cleanup de circuit breakers inativos
     circuitBreakerManager.cleanup();
 
     await webhookWorker.stop();
 
-    console.log(
-      JSON.stringify({
-        timestamp: new Date().toISOString(),
-        level: "info",
-        service: "webhook-worker",
-        event: "worker_stopped",
-      })
-    );
+    log.info("worker_stopped");
   }
 }
@@ -0,0 +1,202 @@
+// src/lib/redact.ts
+
+/**
+ * Valor que substitui qualquer dado sensível nos logs
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Headers mascarados por padrão (comparação sem diferenciar maiúsculas)
+ * LOG_REDACT_HEADERS acrescenta nomes, ex: "X-Partner-Token,X-Tenant-Key"
+ */
+const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "api-key",
+  "x-auth-token",
+  "x-access-token",
+  "x-webhook-signature",
+  "x-worker-signature",
+  "webhook-signature",
+];
+
+/**
+ * Campos mascarados em qualquer nível do log (ex: callback.secret)
+ * LOG_REDACT_FIELDS acrescenta nomes, ex: "cpf,cardNumber"
+ */
+const DEFAULT_REDACTED_FIELDS = [
+  "secret",
+  "password",
+  "token",
+  "apikey",
+  "api_key",
+  "accesstoken",
+  "access_token",
+  "refreshtoken",
+  "refresh_token",
+  "clientsecret",
+  "client_secret",
+  "privatekey",
+  "private_key",
+];
+
+/**
+ * Credenciais embutidas em texto livre (mensagens de erro, respostas)
+ */
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const URL_CREDENTIALS_PATTERN =
+  /(\b[a-z][a-z0-9+.-]*:\/\/)[^\s/@:]+:[^\s/@]+@/gi;
+
+const MAX_DEPTH = 20;
+
+interface RedactionConfig {
+  keys: Set<string>; // Headers + campos, em minúsculas
+  paths: string[][]; // LOG_REDACT_PATHS
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Configuração lida uma vez (as variáveis não mudam em runtime)
+let config: RedactionConfig | null = null;
+
+function getConfig(): RedactionConfig {
+  if (!config) {
+    config = {
+      keys: new Set(
+        [
+          ...DEFAULT_REDACTED_HEADERS,
+          ...DEFAULT_REDACTED_FIELDS,
+          ...parseList(process.env.LOG_REDACT_HEADERS),
+          ...parseList(process.env.LOG_REDACT_FIELDS),
+        ].map((key) => key.toLowerCase())
+      ),
+      // Caminhos de corpo, ex: "destination.body.customer.cpf"
+      // Valem em qualquer profundidade (payload.destination.body.customer.cpf)
+      paths: parseList(process.env.LOG_REDACT_PATHS).map((path) =>
+        path.split(".")
+      ),
+    };
+  }
+  return config;
+}
+
+/**
+ * Relê as variáveis LOG_REDACT_* (scripts de teste)
+ */
+export function resetRedactionConfig(): void {
+  config = null;
+}
+
+/**
+ * Caminho termina com algum LOG_REDACT_PATHS ("*" casa qualquer segmento)
+ */
+function matchesPath(path: string[], paths: string[][]): boolean {
+  return paths.some(
+    (pattern) =>
+      pattern.length <= path.length &&
+      pattern.every(
+        (segment, index) =>
+          segment === "*" ||
+          segment === path[path.length - pattern.length + index]
+      )
+  );
+}
+
+/**
+ * Mascara credenciais embutidas em strings
+ */
+export function redactString(value: string): string {
+  return value
+    .replace(BEARER_PATTERN, `$1 ${REDACTED}`)
+    .replace(URL_CREDENTIALS_PATTERN, `$1${REDACTED}@`);
+}
+
+function redactValue(
+  value: any,
+  path: string[],
+  seen: WeakSet<object>,
+  redactionConfig: RedactionConfig
+): any {
+  if (typeof value === "string") return redactString(value);
+  if (!value || typeof value !== "object") return value;
+
+  // Referência circular ou aninhamento excessivo
+  if (seen.has(value) || path.length >= MAX_DEPTH) return "[Truncated]";
+  const original = value;
+  seen.add(original);
+
+  // Headers do fetch (Headers/Map) → objeto simples antes de mascarar
+  if (
+    value instanceof Map ||
+    (typeof Headers !== "undefined" && value instanceof Headers)
+  ) {
+    value = Object.fromEntries(value.entries());
+  } else if (value instanceof Error) {
+    value = { name: value.name, message: value.message };
+  }
+
+  let result: any;
+
+  if (Array.isArray(value)) {
+    result = value.map((item, index) =>
+      redactValue(item, [...path, String(index)], seen, redactionConfig)
+    );
+  } else {
+    result = {};
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = [...path, key];
+
+      result[key] =
+        redactionConfig.keys.has(key.toLowerCase()) ||
+        matchesPath(itemPath, redactionConfig.paths)
+          ? REDACTED
+          : redactValue(item, itemPath, seen, redactionConfig);
+    }
+  }
+
+  // `seen` guarda só os ancestrais: o mesmo objeto em dois ramos é mascarado duas vezes
+  seen.delete(original);
+  return result;
+}
+
+/**
+ * Cópia do valor com headers sensíveis, campos secretos, caminhos de corpo
+ * configurados e credenciais em texto mascarados (o original não é alterado)
+ */
+export function redact<T>(value: T): T {
+  return redactValue(value, [], new WeakSet(), getConfig());
+}
+
+/**
+ * Maior corpo (em caracteres) incluído por inteiro nos logs de erro
+ */
+const MAX_LOGGED_BODY_LENGTH = 10_000;
+
+/**
+ * Corpo bruto de uma requisição para logs de erro
+ * ⚠️ Texto bruto escapa do mascaramento por chave: JSON válido entra como
+ * objeto mascarado; texto inválido ou grande demais, só o tamanho
+ */
+export function redactRequestBody(body: string): {
+  received_body?: unknown;
+  body_length: number;
+} {
+  if (body.length > MAX_LOGGED_BODY_LENGTH) return { body_length: body.length };
+
+  try {
+    return {
+      received_body: redact(JSON.parse(body)),
+      body_length: body.length,
+    };
+  } catch {
+    return { body_length: body.length };
+  }
+}
@@ -0,0 +1,253 @@
+// src/lib/ssrf.ts
+import dns from "dns/promises";
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from "dns";
+import net from "net";
+import { Agent } from "undici";
+
+/**
+ * Código de erro das requisições bloqueadas (callback, logs e respostas 400)
+ */
+export const SSRF_BLOCKED = "SSRF_BLOCKED";
+
+/**
+ * URL bloqueada pela proteção contra SSRF
+ */
+export class SsrfBlockedError extends Error {
+  readonly code = SSRF_BLOCKED;
+
+  constructor(readonly url: string, readonly reason: string) {
+    super(`Blocked request to ${url}: ${reason}`);
+    this.name = "SsrfBlockedError";
+  }
+}
+
+/**
+ * Faixas nunca acessíveis a partir de uma URL enviada por cliente:
+ * loopback, redes privadas (RFC1918), link-local (inclui 169.254.169.254),
+ * CGNAT, multicast e reservados, além dos formatos IPv6 que embutem IPv4
+ * (IPv4-compatible ::a.b.c.d e NAT64 64:ff9b::a.b.c.d)
+ */
+const BLOCKED_RANGES: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 96, "ipv6"], // Inclui :: , ::1 e IPv4-compatible (::127.0.0.1)
+  ["64:ff9b::", 96, "ipv6"], // NAT64 (RFC 6052)
+  ["64:ff9b:1::", 48, "ipv6"], // NAT64 de uso local (RFC 8215)
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix, family] of BLOCKED_RANGES) {
+  blockedAddresses.addSubnet(network, prefix, family);
+}
+
+/**
+ * Exceções para integrações internas: SSRF_ALLOWLIST
+ * Lista separada por vírgula de hosts ("erp.internal", "*.corp.local"),
+ * IPs ou CIDRs ("10.20.0.0/16")
+ */
+interface SsrfAllowlist {
+  hosts: string[];
+  addresses: net.BlockList;
+}
+
+function getAllowlist(): SsrfAllowlist {
+  const allowlist: SsrfAllowlist = {
+    hosts: [],
+    addresses: new net.BlockList(),
+  };
+
+  for (const entry of (process.env.SSRF_ALLOWLIST || "").split(",")) {
+    const value = entry.trim().toLowerCase();
+    if (!value) continue;
+
+    const [address, prefix] = value.split("/");
+    const family = net.isIP(address);
+
+    if (family === 0) {
+      allowlist.hosts.push(value);
+    } else if (prefix !== undefined) {
+      allowlist.addresses.addSubnet(
+        address,
+        parseInt(prefix, 10),
+        family === 4 ? "ipv4" : "ipv6"
+      );
+    } else {
+      allowlist.addresses.addAddress(address, family === 4 ? "ipv4" : "ipv6");
+    }
+  }
+
+  return allowlist;
+}
+
+function isHostAllowed(hostname: string, allowlist: SsrfAllowlist): boolean {
+  return allowlist.hosts.some((host) =>
+    host.startsWith("*.") ? hostname.endsWith(host.slice(1)) : hostname === host
+  );
+}
+
+/**
+ * Verifica se um IP é interno (e não liberado na allowlist)
+ */
+function isBlockedAddress(address: string, allowlist: SsrfAllowlist): boolean {
+  // IPv4 mapeado em IPv6 (::ffff:127.0.0.1) → avaliar como IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip) === 4 ? "ipv4" : "ipv6";
+
+  return (
+    !allowlist.addresses.check(ip, family) && blockedAddresses.check(ip, family)
+  );
+}
+
+const BLOCKED_ADDRESS_REASON = "private, loopback or link-local address";
+
+/**
+ * Host normalizado: minúsculas, sem colchetes de IPv6 ("[::1]") e sem o
+ * ponto final de FQDN ("localhost." resolve igual a "localhost")
+ */
+function getHostname(url: URL): string {
+  return url.hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.+$/, "");
+}
+
+/**
+ * Validação sem DNS (enfileiramento): esquema http(s), "localhost" e IPs literais
+ * Retorna o motivo do bloqueio ou null
+ */
+export function getUrlBlockReason(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "invalid URL";
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return `scheme ${parsed.protocol} is not allowed (expected http or https)`;
+  }
+
+  const hostname = getHostname(parsed);
+  const allowlist = getAllowlist();
+
+  if (isHostAllowed(hostname, allowlist)) return null;
+
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return `${hostname} is a loopback host`;
+  }
+
+  return net.isIP(hostname) && isBlockedAddress(hostname, allowlist)
+    ? `${hostname} is a ${BLOCKED_ADDRESS_REASON}`
+    : null;
+}
+
+/**
+ * Validação no envio: repete a checagem estática e resolve o DNS,
+ * bloqueando se QUALQUER endereço do host for interno
+ * Falha de DNS não bloqueia (o fetch reporta DNS_ERROR normalmente)
+ * ⚠️ O fetch resolve o host de novo: usar junto com getSsrfSafeDispatcher(),
+ * que repete a checagem no connect (fecha a janela de DNS rebinding)
+ *
+ * @throws SsrfBlockedError
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const staticReason = getUrlBlockReason(url);
+  if (staticReason) {
+    throw new SsrfBlockedError(url, staticReason);
+  }
+
+  const hostname = getHostname(new URL(url));
+  const allowlist = getAllowlist();
+
+  if (net.isIP(hostname) || isHostAllowed(hostname, allowlist)) return;
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await dns.lookup(hostname, { all: true });
+  } catch {
+    return;
+  }
+
+  for (const { address } of addresses) {
+    if (isBlockedAddress(address, allowlist)) {
+      throw new SsrfBlockedError(
+        url,
+        `${hostname} resolves to ${address} (${BLOCKED_ADDRESS_REASON})`
+      );
+    }
+  }
+}
+
+type LookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string | LookupAddress[],
+  family?: number
+) => void;
+
+/**
+ * dns.lookup usado no connect: o endereço validado é o mesmo conectado
+ */
+function ssrfSafeLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: LookupCallback
+): void {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const allowlist = getAllowlist();
+    const host = hostname.toLowerCase().replace(/\.+$/, "");
+
+    if (!isHostAllowed(host, allowlist)) {
+      const blocked = addresses.find(({ address }) =>
+        isBlockedAddress(address, allowlist)
+      );
+      if (blocked) {
+        return callback(
+          new SsrfBlockedError(
+            hostname,
+            `${host} resolves to ${blocked.address} (${BLOCKED_ADDRESS_REASON})`
+          ),
+          []
+        );
+      }
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+let safeDispatcher: Agent | null = null;
+
+/**
+ * Dispatcher do undici que valida o IP no momento da conexão
+ * Passar em fetch(url, { dispatcher }) em toda requisição para URL de cliente
+ */
+export function getSsrfSafeDispatcher(): Agent {
+  if (!safeDispatcher) {
+    safeDispatcher = new Agent({ connect: { lookup: ssrfSafeLookup } });
+  }
+  return safeDispatcher;
+}
+
+/**
+ * fetch embrulha erros de conexão em TypeError("fetch failed"):
+ * devolve o SsrfBlockedError original quando for o caso
+ */
+export function unwrapSsrfError(error: any): any {
+  return error?.cause instanceof SsrfBlockedError ? error.cause : error;
+}
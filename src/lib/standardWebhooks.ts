@@ -0,0 +1,148 @@
+// src/lib/standardWebhooks.ts
+// Standard Webhooks (https://www.standardwebhooks.com): assinatura e verificação
+// ⚠️ Sem dependências do worker: importável pelos receptores
+// (import { verifyStandardWebhook } from "convex-bullmq-worker/standard-webhooks")
+import crypto from "crypto";
+
+export const STANDARD_WEBHOOK_HEADERS = {
+  id: "webhook-id",
+  timestamp: "webhook-timestamp",
+  signature: "webhook-signature",
+} as const;
+
+const SECRET_PREFIX = "whsec_";
+const SIGNATURE_VERSION = "v1";
+
+/**
+ * Janela padrão (segundos) aceita para webhook-timestamp
+ */
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Verifica se o secret está no formato "whsec_<base64>"
+ */
+export function isStandardWebhookSecret(secret: string): boolean {
+  return (
+    secret.startsWith(SECRET_PREFIX) &&
+    secret.length > SECRET_PREFIX.length &&
+    /^[A-Za-z0-9+/]+={0,2}$/.test(secret.slice(SECRET_PREFIX.length))
+  );
+}
+
+function decodeSecret(secret: string): Buffer {
+  return Buffer.from(
+    secret.startsWith(SECRET_PREFIX)
+      ? secret.slice(SECRET_PREFIX.length)
+      : secret,
+    "base64"
+  );
+}
+
+/**
+ * Assinatura "v1,<base64>" de `${id}.${timestamp}.${body}`
+ *
+ * @param timestamp - Unix em segundos
+ */
+export function signStandardWebhook(
+  id: string,
+  timestamp: number,
+  body: string | Buffer,
+  secret: string
+): string {
+  const signature = crypto
+    .createHmac("sha256", decodeSecret(secret))
+    .update(`${id}.${timestamp}.`)
+    .update(body)
+    .digest("base64");
+
+  return `${SIGNATURE_VERSION},${signature}`;
+}
+
+/**
+ * Headers de uma entrega: uma assinatura por secret ativo (rotação),
+ * separadas por espaço
+ */
+export function buildStandardWebhookHeaders(
+  id: string,
+  body: string | Buffer,
+  secrets: string[],
+  now: number = Date.now()
+): Record<string, string> {
+  const timestamp = Math.floor(now / 1000);
+
+  return {
+    [STANDARD_WEBHOOK_HEADERS.id]: id,
+    [STANDARD_WEBHOOK_HEADERS.timestamp]: String(timestamp),
+    [STANDARD_WEBHOOK_HEADERS.signature]: secrets
+      .map((secret) => signStandardWebhook(id, timestamp, body, secret))
+      .join(" "),
+  };
+}
+
+type HeaderSource =
+  | { get(name: string): string | null } // Fetch API (Request.headers)
+  | Record<string, string | string[] | undefined>; // Node (req.headers)
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof headers.get === "function") {
+    return (
+      (headers as { get(name: string): string | null }).get(name) ?? undefined
+    );
+  }
+
+  const value = (headers as Record<string, string | string[] | undefined>)[
+    name
+  ];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Valida uma entrega recebida
+ * Aceita se qualquer assinatura "v1" bater com qualquer um dos secrets
+ * e o timestamp estiver dentro da tolerância
+ *
+ * @param body - Corpo bruto, exatamente como recebido (antes do JSON.parse)
+ * @param headers - req.headers (Node) ou Request.headers (Fetch API)
+ * @param secrets - Um ou mais secrets "whsec_..." (rotação)
+ */
+export function verifyStandardWebhook(
+  body: string | Buffer,
+  headers: HeaderSource,
+  secrets: string | string[],
+  options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  const id = readHeader(headers, STANDARD_WEBHOOK_HEADERS.id);
+  const timestamp = readHeader(headers, STANDARD_WEBHOOK_HEADERS.timestamp);
+  const signatureHeader = readHeader(
+    headers,
+    STANDARD_WEBHOOK_HEADERS.signature
+  );
+
+  if (!id || !timestamp || !signatureHeader || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (Math.abs(now - Number(timestamp)) > tolerance) {
+    return false;
+  }
+
+  const received = signatureHeader
+    .split(" ")
+    .filter((signature) => signature.startsWith(`${SIGNATURE_VERSION},`));
+
+  return (Array.isArray(secrets) ? secrets : [secrets]).some((secret) => {
+    const expected = Buffer.from(
+      signStandardWebhook(id, Number(timestamp), body, secret)
+    );
+
+    return received.some((signature) => {
+      const candidate = Buffer.from(signature);
+      return (
+        candidate.length === expected.length &&
+        crypto.timingSafeEqual(candidate, expected)
+      );
+    });
+  });
+}
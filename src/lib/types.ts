@@ -15,29 +15,111 @@ export interface QueueJobPayload {
   // Destino do job (onde fazer requisição)
   destination: {
     url: string; // URL para onde enviar (webhook, API email, etc)
-    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+    method: "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE";
     headers?: Record<string, string>;
-    body?: any; // Payload para o destino
-    timeout?: number; // Opcional, padrão 30000ms
+    body?: any; // Payload para o destino (ignorado em GET/HEAD)
+    bodyType?: WebhookBodyType; // Padrão: json
+    timeout?: number; // Opcional, padrão 30000ms (limitado por WEBHOOK_TIMEOUT_MIN_MS/MAX_MS)
+    signing?: WebhookSigningOptions; // Opcional: assinatura HMAC calculada a cada tentativa
+    redirect?: WebhookRedirectOptions; // Padrão: { mode: "follow", maxHops: 5 }
   };
 
   // Callback (notificação de resultado)
   callback: {
     url: string; // URL completa: https://app.com/api/queue/callback
     secret?: string; // Opcional: HMAC específico por request
+    events?: WorkerCallbackEvent[]; // Padrão: ["success", "failed"]
   };
 
   // Configurações opcionais
   options?: {
     priority?: "low" | "normal" | "high"; // Prioridade na fila
     retries?: number; // Padrão: 3
-    backoff?: number; // Delay inicial em ms (padrão: 2000)
+    backoff?: number | WebhookBackoffOptions; // Número = delay inicial exponencial em ms (padrão: 2000)
+    delay?: number; // Atraso em ms antes do envio (não usar com sendAt)
+    sendAt?: string; // ISO 8601: data/hora do envio (não usar com delay)
+    idempotencyKey?: string; // Alternativa ao header Idempotency-Key (escopo: tenantId)
+    retryOn?: Array<number | string>; // Status retentáveis (ex: ["5xx", 408, 429]); padrão WEBHOOK_RETRY_ON
   };
 
   // Metadados para debugging/tracking
   metadata?: Record<string, any>;
 }
 
+/**
+ * Estratégia de espera entre tentativas (options.backoff)
+ * - fixed: sempre `delay`
+ * - linear: `delay` * tentativa
+ * - exponential: `delay` * 2^(tentativa - 1), com jitter opcional
+ * - schedule: intervalos explícitos, ex: ["10s", "1m", "10m", "1h"]
+ */
+export interface WebhookBackoffOptions {
+  type: "fixed" | "linear" | "exponential" | "schedule";
+  delay?: number; // Delay base em ms (padrão: 2000)
+  maxDelay?: number; // Teto em ms para qualquer espera
+  jitter?: "none" | "full" | "decorrelated"; // Apenas exponential
+  delays?: Array<number | string>; // Apenas schedule (ms ou "10s", "1m", "1h")
+}
+
+/**
+ * Serialização de destination.body
+ * - json: JSON.stringify (padrão)
+ * - form: objeto plano → application/x-www-form-urlencoded (ou string já codificada)
+ * - text / xml: string enviada como está
+ * - base64-binary: string base64 decodificada e enviada como bytes
+ * - none: sem corpo
+ */
+export type WebhookBodyType =
+  | "json"
+  | "form"
+  | "text"
+  | "xml"
+  | "base64-binary"
+  | "none";
+
+/**
+ * Tratamento de respostas 3xx do destino (destination.redirect)
+ * - follow: segue até maxHops, revalidando SSRF e política do tenant a cada salto
+ * - manual: não segue; o 3xx conta como entrega concluída
+ * - error: qualquer 3xx é falha definitiva
+ */
+export interface WebhookRedirectOptions {
+  mode: "follow" | "manual" | "error";
+  maxHops?: number; // Apenas follow (padrão: 5, máximo: 20)
+}
+
+/**
+ * Salto de redirect registrado no log de entrega e no callback
+ */
+export interface WebhookRedirectHop {
+  url: string; // URL que respondeu 3xx
+  statusCode: number;
+  location: string; // Próxima URL (absoluta)
+  method: string; // Método usado no próximo salto
+}
+
+/**
+ * Assinatura HMAC das requisições ao destino (destination.signing)
+ * O secret é referenciado pelo nome: WEBHOOK_SIGNING_SECRET_<SECRETNAME>
+ * - hmac: assinatura configurável (campos abaixo)
+ * - standard-webhooks: headers webhook-id/-timestamp/-signature (ignora os demais campos)
+ */
+export interface WebhookSigningOptions {
+  secretName: string; // Letras, números e "_"
+  scheme?: "hmac" | "standard-webhooks"; // Padrão: hmac
+  algorithm?: "sha256" | "sha512"; // Padrão: sha256
+  header?: string; // Padrão: X-Webhook-Signature
+  payload?: "body" | "timestamp.body"; // Padrão: body
+  timestampHeader?: string; // Apenas timestamp.body (padrão: X-Webhook-Timestamp)
+  encoding?: "hex" | "base64"; // Padrão: hex
+}
+
+/**
+ * Eventos que podem gerar callback (callback.events)
+ * "retrying" notifica cada tentativa intermediária que falhou
+ */
+export type WorkerCallbackEvent = "success" | "failed" | "retrying";
+
 /**
  * Payload enviado pelo worker após processar o job (callback)
  */
@@ -50,7 +132,7 @@ export interface WorkerCallbackPayload {
   negocioId?: number;
 
   // Status da execução
-  status: "success" | "failed" | "timeout" | "retrying";
+  status: "success" | "failed" | "timeout" | "retrying" | "cancelled";
   success: boolean;
 
   // Resposta do destino
@@ -61,6 +143,8 @@ export interface WorkerCallbackPayload {
     headers?: Record<string, string>;
     body?: any; // Resposta recebida
     duration: number; // Tempo em ms
+    timeoutMs?: number; // Timeout efetivamente aplicado à requisição
+    redirects?: WebhookRedirectHop[]; // Redirects seguidos/recebidos (se houver)
   };
 
   // Erro (se houver)
@@ -91,6 +175,139 @@ export interface WorkerCallbackPayload {
 export interface QueueEnqueueResponse {
   success: boolean;
   jobId: string; // ID único do BullMQ
+  scheduledFor?: string; // ISO 8601, apenas para envios agendados
   message?: string;
   error?: string;
 }
+
+/**
+ * Resultado de cada item de POST /queue/webhooks/batch
+ */
+export interface QueueBatchItemResult {
+  index: number; // Posição no array enviado
+  success: boolean;
+  jobId?: string;
+  duplicate?: boolean; // true quando a idempotencyKey já havia sido usada
+  scheduledFor?: string; // ISO 8601, apenas para envios agendados
+  error?: string; // Erro de validação do item
+  code?: string; // Ex: "DESTINATION_NOT_ALLOWED", "SSRF_BLOCKED"
+}
+
+/**
+ * Resposta ao enfileirar um lote de jobs
+ */
+export interface QueueBatchEnqueueResponse {
+  success: boolean; // true se ao menos um item foi aceito
+  total: number;
+  accepted: number;
+  rejected: number;
+  results: QueueBatchItemResult[];
+}
+
+/**
+ * Estado de um job consultado via GET /queue/webhooks/:jobId
+ */
+export type QueueJobState =
+  | "waiting"
+  | "active"
+  | "delayed"
+  | "completed"
+  | "failed"
+  | "unknown";
+
+/**
+ * Resposta da consulta de status de um job
+ */
+export interface QueueJobStatusResponse {
+  jobId: string;
+  tenantId: number;
+  state: QueueJobState;
+  attemptsMade: number;
+  maxAttempts: number;
+
+  // Último erro registrado (se houver)
+  lastError: {
+    message: string;
+    category: string | null; // TIMEOUT, CONNECTION_FAILED, HTTP_ERROR, etc
+    statusCode: number | null;
+  } | null;
+
+  timestamps: {
+    createdAt: string; // ISO 8601
+    processedAt: string | null;
+    finishedAt: string | null;
+  };
+
+  // Retorno de WebhookWorker.processJob (apenas quando completed)
+  returnValue: any;
+}
+
+/**
+ * Resumo de um job na listagem GET /queue/webhooks
+ */
+export interface QueueJobSummary {
+  jobId: string;
+  tenantId: number;
+  integrationId?: number;
+  negocioId?: number;
+  state: QueueJobState;
+  url: string;
+  method: string;
+  attemptsMade: number;
+  maxAttempts: number;
+  lastStatusCode: number | null; // Última resposta do destino
+  errorCategory: string | null; // Categoria do último erro (se houver)
+  createdAt: string; // ISO 8601
+  finishedAt: string | null;
+}
+
+/**
+ * Resposta de GET /queue/webhooks
+ */
+export interface QueueJobListResponse {
+  jobs: QueueJobSummary[];
+  nextCursor: string | null; // null = última página
+}
+
+/**
+ * Corpo de POST/PUT /queue/schedules
+ */
+export interface WebhookScheduleRequest {
+  cron: string; // Ex: "0 3 * * *" (todo dia às 03:00)
+  timezone?: string; // IANA, padrão "UTC"
+  payload: QueueJobPayload; // Template enfileirado a cada execução
+}
+
+/**
+ * Resultado da última execução de um schedule
+ */
+export interface WebhookScheduleRun {
+  jobId: string;
+  status: "success" | "failed" | "retrying";
+  attempt: number;
+  statusCode: number | null;
+  error?: string;
+  finishedAt: string; // ISO 8601
+}
+
+/**
+ * Schedule recorrente (BullMQ job scheduler na fila "webhooks")
+ */
+export interface WebhookSchedule {
+  id: string;
+  tenantId: number;
+  cron: string;
+  timezone: string;
+  payload: QueueJobPayload;
+  nextRunAt: string | null; // ISO 8601
+  lastRun: WebhookScheduleRun | null;
+}
+
+/**
+ * Política de destinos de um tenant (GET/PUT /queue/tenants/:tenantId/policy)
+ */
+export interface TenantDestinationPolicy {
+  tenantId: number;
+  allowedHosts: string[]; // "api.parceiro.com" ou "*.parceiro.com"
+  updatedAt: string; // ISO 8601
+}